@@ -0,0 +1,35 @@
+import { addDays } from "date-fns";
+
+import prismadb from "@/lib/prismadb";
+
+// Unexpired batches with units left that expire within `days`, soonest first.
+export const getExpiringStock = async (storeId: string, days: number) => {
+    const now = new Date();
+
+    const batches = await prismadb.stockBatch.findMany({
+        where: {
+            quantity: {
+                gt: 0,
+            },
+            expiryDate: {
+                gt: now,
+                lte: addDays(now, days),
+            },
+            product: {
+                storeId,
+                deletedAt: null,
+            },
+        },
+        include: {
+            product: true,
+        },
+        orderBy: {
+            expiryDate: "asc",
+        },
+    });
+
+    return {
+        quantity: batches.reduce((total, batch) => total + batch.quantity, 0),
+        batches,
+    };
+}
\ No newline at end of file
@@ -1,57 +1,36 @@
+import { Prisma } from "@prisma/client";
+
 import prismadb from "@/lib/prismadb";
+import { DashboardRange, getRangeBuckets } from "@/lib/dashboard-range";
 
 interface GraphData {
     name: string;
     total: number;
 }
 
-export const getGraphRevenue = async (storeId: string) => {
-    const paidOrders = await prismadb.order.findMany({
-        where: {
-            storeId,
-            isPaid: true,
-        },
-        include: {
-            orderItems: {
-                include: {
-                    product: true
-                }
-            }
-        }
-    });
-
-    const monthlyRevenue: { [key: number]: number } = {};
-
-    for (const order of paidOrders) {
-        const month = order.createdAt.getMonth();
-        let revenueForOrder = 0;
-
-        for (const item of order.orderItems) {
-            revenueForOrder += item.product.price.toNumber();
-        }
-
-        monthlyRevenue[month] = (monthlyRevenue[month] || 0) + revenueForOrder;
-    };
-
-    const graphData: GraphData[] = [
-        {name: "Jan", total: 0},
-        {name: "Feb", total: 0},
-        {name: "Mar", total: 0},
-        {name: "Apr", total: 0},
-        {name: "Mei", total: 0},
-        {name: "Jun", total: 0},
-        {name: "Jul", total: 0},
-        {name: "Aug", total: 0},
-        {name: "Sep", total: 0},
-        {name: "Oct", total: 0},
-        {name: "Nov", total: 0},
-        {name: "Des", total: 0},
-    ];
-
-    for (const moth in monthlyRevenue) {
-        graphData[parseInt(moth)].total = monthlyRevenue[parseInt(moth)];
-    }
+// Sums paid orders net of their refunds per bucket in the database; buckets without sales are
+// filled with 0.
+export const getGraphRevenue = async (storeId: string, range: DashboardRange) => {
+    const rows = await prismadb.$queryRaw<{ bucket: string, total: Prisma.Decimal }[]>`
+        SELECT
+            to_char(date_trunc(${range.granularity}, o."createdAt"), 'YYYY-MM-DD') AS bucket,
+            SUM(
+                (SELECT SUM(oi.price * oi.quantity) FROM "OrderItem" oi WHERE oi."orderId" = o.id)
+                - o."refundedAmount"
+            ) AS total
+        FROM "Order" o
+        WHERE o."storeId" = ${storeId}
+            AND o."isPaid" = true
+            AND o."createdAt" BETWEEN ${range.from} AND ${range.to}
+        GROUP BY 1
+    `;
+
+    const revenue = new Map(rows.map((row) => [row.bucket, Number(row.total)]));
+
+    const graphData: GraphData[] = getRangeBuckets(range).map((bucket) => ({
+        name: bucket.name,
+        total: revenue.get(bucket.key) || 0,
+    }));
 
     return graphData;
-
 }
\ No newline at end of file
@@ -1,10 +1,15 @@
 import prismadb from "@/lib/prismadb";
+import { DashboardRange } from "@/lib/dashboard-range";
 
-export const getSalesCount = async (storeId: string) => {
+export const getSalesCount = async (storeId: string, range: DashboardRange) => {
     const salesCount = await prismadb.order.count({
         where: {
             storeId,
             isPaid: true,
+            createdAt: {
+                gte: range.from,
+                lte: range.to,
+            },
         },
     });
 
@@ -1,12 +1,15 @@
 import prismadb from "@/lib/prismadb";
 
 export const getStockCount = async (storeId: string) => {
-    const stockCount = await prismadb.product.count({
+    const stock = await prismadb.product.aggregate({
         where: {
             storeId,
-            isArchived: false,
+            deletedAt: null,
+        },
+        _sum: {
+            stock: true,
         },
     });
 
-    return stockCount;
+    return stock._sum.stock || 0;
 }
\ No newline at end of file
@@ -1,27 +1,20 @@
-import prismadb from "@/lib/prismadb";
-
-export const getTotalRevenue = async (storeId: string) => {
-    const paidOrders = await prismadb.order.findMany({
-        where: {
-            storeId,
-            isPaid: true,
-        },
-        include: {
-            orderItems: {
-                include: {
-                    product: true
-                }
-            }
-        }
-    });
+import { Prisma } from "@prisma/client";
 
-    const totalRevenue = paidOrders.reduce((total, order) => {
-        const orderTotal = order.orderItems.reduce((orderSum, item) => {
-            return orderSum + item.product.price.toNumber();
-        }, 0);
+import prismadb from "@/lib/prismadb";
+import { DashboardRange } from "@/lib/dashboard-range";
 
-        return total + orderTotal;
-    }, 0);
+// Paid orders count net of what was refunded on them; `isPaid` stays set after a refund.
+export const getTotalRevenue = async (storeId: string, range: DashboardRange) => {
+    const [result] = await prismadb.$queryRaw<{ total: Prisma.Decimal | null }[]>`
+        SELECT SUM(
+            (SELECT SUM(oi.price * oi.quantity) FROM "OrderItem" oi WHERE oi."orderId" = o.id)
+            - o."refundedAmount"
+        ) AS total
+        FROM "Order" o
+        WHERE o."storeId" = ${storeId}
+            AND o."isPaid" = true
+            AND o."createdAt" BETWEEN ${range.from} AND ${range.to}
+    `;
 
-    return totalRevenue;
+    return Number(result?.total || 0);
 }
\ No newline at end of file
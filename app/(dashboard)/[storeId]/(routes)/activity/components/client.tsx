@@ -0,0 +1,98 @@
+'use client';
+
+import { AuditEntity } from '@prisma/client';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+import { Heading } from '@/components/ui/heading';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { ActivityColumn, columns } from './columns';
+import { DataTable } from '@/components/ui/data-table';
+
+// Select items cannot carry an empty value, so this stands in for "no filter".
+const ALL = 'ALL';
+
+const entityTypes = Object.keys(AuditEntity) as AuditEntity[];
+
+interface ActivityClientProps {
+  data: ActivityColumn[];
+  users: { value: string, label: string }[];
+}
+
+export const ActivityClient: React.FC<ActivityClientProps> = ({
+  data,
+  users
+}) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const onFilter = (key: string, value: string) => {
+    const query = new URLSearchParams(searchParams.toString());
+
+    if (value && value !== ALL) {
+      query.set(key, value);
+    } else {
+      query.delete(key);
+    }
+
+    router.push(`${pathname}?${query.toString()}`);
+  };
+
+  return (
+    <>
+      <Heading
+        title={`Aktivitas (${data.length})`}
+        description="Riwayat perubahan yang dilakukan di toko ini"
+      />
+      <Separator />
+      <div className="grid grid-cols-4 gap-4">
+        <Select
+          value={searchParams.get('userId') || ALL}
+          onValueChange={(value) => onFilter('userId', value)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Pengguna" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Semua Pengguna</SelectItem>
+            {users.map((user) => (
+              <SelectItem key={user.value} value={user.value}>
+                {user.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={searchParams.get('entityType') || ALL}
+          onValueChange={(value) => onFilter('entityType', value)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Entitas" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Semua Entitas</SelectItem>
+            {entityTypes.map((entityType) => (
+              <SelectItem key={entityType} value={entityType}>
+                {entityType}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={searchParams.get('from') || ''}
+          onChange={(event) => onFilter('from', event.target.value)}
+        />
+        <Input
+          type="date"
+          value={searchParams.get('to') || ''}
+          onChange={(event) => onFilter('to', event.target.value)}
+        />
+      </div>
+      <DataTable searchKey="entityId" columns={columns} data={data} />
+    </>
+  );
+};
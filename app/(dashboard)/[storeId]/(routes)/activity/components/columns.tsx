@@ -0,0 +1,45 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+
+export type ActivityColumn = {
+  id: string
+  user: string
+  entityType: string
+  entityId: string
+  action: string
+  changes: string
+  createdAt: string
+}
+
+export const columns: ColumnDef<ActivityColumn>[] = [
+  {
+    accessorKey: "createdAt",
+    header: "Tanggal",
+  },
+  {
+    accessorKey: "user",
+    header: "Pengguna",
+  },
+  {
+    accessorKey: "action",
+    header: "Aksi",
+  },
+  {
+    accessorKey: "entityType",
+    header: "Entitas",
+  },
+  {
+    accessorKey: "entityId",
+    header: "Id",
+  },
+  {
+    accessorKey: "changes",
+    header: "Perubahan",
+    cell: ({ row }) => (
+      <div className="max-w-md break-words text-xs text-muted-foreground">
+        {row.original.changes}
+      </div>
+    )
+  },
+]
@@ -0,0 +1,90 @@
+import { format } from "date-fns";
+import { AuditEntity, Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { getDateRangeParam } from "@/lib/data-table";
+import { ActivityClient } from "./components/client";
+import { ActivityColumn } from "./components/columns";
+
+// Only the most recent entries matching the filters are shown.
+const ACTIVITY_LIMIT = 500;
+
+const describeChanges = (before: Prisma.JsonValue, after: Prisma.JsonValue) => {
+    const oldValues = (before || {}) as Record<string, unknown>;
+    const newValues = (after || {}) as Record<string, unknown>;
+    const keys = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)]));
+
+    return keys.map((key) => {
+        if (!after) {
+            return `${key}: ${JSON.stringify(oldValues[key])}`;
+        }
+
+        if (!before) {
+            return `${key}: ${JSON.stringify(newValues[key])}`;
+        }
+
+        return `${key}: ${JSON.stringify(oldValues[key])} → ${JSON.stringify(newValues[key])}`;
+    }).join("; ");
+};
+
+const ActivityPage = async ({
+    params,
+    searchParams
+}: {
+    params: { storeId: string },
+    searchParams: { userId?: string, entityType?: string, from?: string, to?: string }
+}) => {
+    const entityType = searchParams.entityType && searchParams.entityType in AuditEntity
+        ? searchParams.entityType as AuditEntity
+        : undefined;
+
+    const auditLogs = await prismadb.auditLog.findMany({
+        where: {
+            storeId: params.storeId,
+            userId: searchParams.userId || undefined,
+            entityType,
+            createdAt: getDateRangeParam(searchParams)
+        },
+        orderBy: {
+            createdAt: 'desc'
+        },
+        take: ACTIVITY_LIMIT
+    });
+
+    const members = await prismadb.storeMember.findMany({
+        where: {
+            storeId: params.storeId,
+            userId: {
+                not: null
+            }
+        }
+    });
+
+    const memberEmails = new Map(members.map((member) => [member.userId, member.email]));
+
+    const formattedAuditLogs: ActivityColumn[] = auditLogs.map((item) => ({
+        id: item.id,
+        user: memberEmails.get(item.userId) || item.userId,
+        entityType: item.entityType,
+        entityId: item.entityId,
+        action: item.action,
+        changes: describeChanges(item.before, item.after),
+        createdAt: format(item.createdAt, "MMMM do, yyyy HH:mm")
+    }));
+
+    return (
+        <div className="flex-col">
+            <div className="flex-1 space-y-4 p-8 pt-6">
+                <ActivityClient
+                    data={formattedAuditLogs}
+                    users={members.map((member) => ({
+                        value: member.userId!,
+                        label: member.email || member.userId!
+                    }))}
+                />
+            </div>
+        </div>
+    )
+}
+
+export default ActivityPage;
\ No newline at end of file
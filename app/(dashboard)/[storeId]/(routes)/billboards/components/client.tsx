@@ -3,12 +3,13 @@
 import { Button } from '@/components/ui/button';
 import { Heading } from '@/components/ui/heading';
 import { Separator } from '@/components/ui/separator';
-import { Plus } from 'lucide-react';
+import { Plus, Trash } from 'lucide-react';
 import { useParams, useRouter } from 'next/navigation';
 
 import { BillboardColumn, columns } from './columns';
 import { DataTable } from '@/components/ui/data-table';
 import { ApiList } from '@/components/ui/api-list';
+import { BulkDeleteAction } from '@/components/bulk-actions';
 
 interface BillboardClientProps {
   data: BillboardColumn[];
@@ -25,15 +26,31 @@ export const BillboardClient: React.FC<BillboardClientProps> = ({ data }) => {
           title={`Papan Iklan (${data.length})`}
           description="Kelola Papan Iklan Anda Disini"
         />
-        <Button
-          onClick={() => router.push(`/${params.storeId}/billboards/new`)}
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Add New
-        </Button>
+        <div className="flex items-center gap-x-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/${params.storeId}/trash?entity=billboards`)}
+          >
+            <Trash className="mr-2 h-4 w-4" />
+            Sampah
+          </Button>
+          <Button
+            onClick={() => router.push(`/${params.storeId}/billboards/new`)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add New
+          </Button>
+        </div>
       </div>
       <Separator />
-      <DataTable searchKey="label" columns={columns} data={data} />
+      <DataTable
+        searchKey="label"
+        columns={columns}
+        data={data}
+        renderBulkActions={(ids, clearSelection) => (
+          <BulkDeleteAction entity="billboards" ids={ids} onDone={clearSelection} />
+        )}
+      />
       {/* <Heading title="API" description="Api calls for Billboards" />
       <Separator />
       <ApiList entityName="billboards" entityIdName="billboardId" /> */}
@@ -12,7 +12,8 @@ const BillboardsPage = async ({
 }) => {
     const billboards = await prismadb.billboard.findMany({
         where: {
-            storeId: params.storeId
+            storeId: params.storeId,
+            deletedAt: null
         },
         orderBy: {
             createdAt: 'desc'
@@ -14,7 +14,8 @@ const CategoryPage = async ({
 
     const billboards = await prismadb.billboard.findMany({
         where: {
-            storeId: params.storeId
+            storeId: params.storeId,
+            deletedAt: null
         }
     })
 
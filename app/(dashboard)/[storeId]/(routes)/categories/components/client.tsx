@@ -3,12 +3,13 @@
 import { Button } from '@/components/ui/button';
 import { Heading } from '@/components/ui/heading';
 import { Separator } from '@/components/ui/separator';
-import { Plus } from 'lucide-react';
+import { Plus, Trash } from 'lucide-react';
 import { useParams, useRouter } from 'next/navigation';
 
 import { CategoryColumn, columns } from './columns';
 import { DataTable } from '@/components/ui/data-table';
 import { ApiList } from '@/components/ui/api-list';
+import { BulkDeleteAction } from '@/components/bulk-actions';
 
 interface CategoryClientProps {
   data: CategoryColumn[];
@@ -25,15 +26,31 @@ export const CategoryClient: React.FC<CategoryClientProps> = ({ data }) => {
           title={`Kategori (${data.length})`}
           description="Kelola Kategori Kebutuhan Anda Disini"
         />
-        <Button
-          onClick={() => router.push(`/${params.storeId}/categories/new`)}
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Add New
-        </Button>
+        <div className="flex items-center gap-x-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/${params.storeId}/trash?entity=categories`)}
+          >
+            <Trash className="mr-2 h-4 w-4" />
+            Sampah
+          </Button>
+          <Button
+            onClick={() => router.push(`/${params.storeId}/categories/new`)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add New
+          </Button>
+        </div>
       </div>
       <Separator />
-      <DataTable searchKey="name" columns={columns} data={data} />
+      <DataTable
+        searchKey="name"
+        columns={columns}
+        data={data}
+        renderBulkActions={(ids, clearSelection) => (
+          <BulkDeleteAction entity="categories" ids={ids} onDone={clearSelection} />
+        )}
+      />
       {/* <Heading title="API" description="Api calls for Categories" />
       <Separator />
       <ApiList entityName="categories" entityIdName="categoryId" /> */}
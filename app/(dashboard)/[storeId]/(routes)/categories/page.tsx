@@ -12,7 +12,8 @@ const CategoriesPage = async ({
 }) => {
     const categories = await prismadb.category.findMany({
         where: {
-            storeId: params.storeId
+            storeId: params.storeId,
+            deletedAt: null
         },
         include: {
             billboard: true,
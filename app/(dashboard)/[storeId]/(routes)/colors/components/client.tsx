@@ -3,12 +3,13 @@
 import { Button } from '@/components/ui/button';
 import { Heading } from '@/components/ui/heading';
 import { Separator } from '@/components/ui/separator';
-import { Plus } from 'lucide-react';
+import { Plus, Trash } from 'lucide-react';
 import { useParams, useRouter } from 'next/navigation';
 
 import { ColorColumn, columns } from './columns';
 import { DataTable } from '@/components/ui/data-table';
 import { ApiList } from '@/components/ui/api-list';
+import { BulkDeleteAction } from '@/components/bulk-actions';
 
 interface ColorsClientProps {
   data: ColorColumn[];
@@ -25,15 +26,31 @@ export const ColorsClient: React.FC<ColorsClientProps> = ({ data }) => {
           title={`Tipe Obat (${data.length})`}
           description="Kelola tipe obat anda disini"
         />
-        <Button
-          onClick={() => router.push(`/${params.storeId}/colors/new`)}
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Add New
-        </Button>
+        <div className="flex items-center gap-x-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/${params.storeId}/trash?entity=colors`)}
+          >
+            <Trash className="mr-2 h-4 w-4" />
+            Sampah
+          </Button>
+          <Button
+            onClick={() => router.push(`/${params.storeId}/colors/new`)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add New
+          </Button>
+        </div>
       </div>
       <Separator />
-      <DataTable searchKey="name" columns={columns} data={data} />
+      <DataTable
+        searchKey="name"
+        columns={columns}
+        data={data}
+        renderBulkActions={(ids, clearSelection) => (
+          <BulkDeleteAction entity="colors" ids={ids} onDone={clearSelection} />
+        )}
+      />
       {/* <Heading title="API" description="Api calls for Colors" />
       <Separator />
       <ApiList entityName="colors" entityIdName="colorId" /> */}
@@ -12,7 +12,8 @@ const ColorsPage = async ({
 }) => {
     const colors = await prismadb.color.findMany({
         where: {
-            storeId: params.storeId
+            storeId: params.storeId,
+            deletedAt: null
         },
         orderBy: {
             createdAt: 'desc'
@@ -0,0 +1,277 @@
+'use client';
+
+import axios from 'axios';
+import { OrderStatus, PrescriptionStatus } from '@prisma/client';
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { useParams, useRouter } from 'next/navigation';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Separator } from '@/components/ui/separator';
+import { AlertModal } from '@/components/modals/alert-modals';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { orderStatusLabels, orderStatusTransitions } from '@/lib/order-status';
+import { isBlockedByPrescription, prescriptionStatusLabels } from '@/lib/prescription';
+import { RefundModal } from './refund-modal';
+
+export type OrderDetailData = {
+  id: string;
+  status: OrderStatus;
+  isPaid: boolean;
+  phone: string;
+  addressLine1: string;
+  addressLine2: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  stripeSessionId: string | null;
+  paymentIntentId: string | null;
+  refundedAmount: string;
+  refundReason: string | null;
+  prescription: {
+    imageUrl: string;
+    status: PrescriptionStatus;
+    note: string | null;
+  } | null;
+  orderItems: {
+    id: string;
+    productId: string;
+    name: string;
+    quantity: number;
+    refundableQuantity: number;
+    price: string;
+    subtotal: string;
+  }[];
+  totalPrice: string;
+  createdAt: string;
+  statusHistory: {
+    id: string;
+    fromStatus: OrderStatus | null;
+    toStatus: OrderStatus;
+    createdAt: string;
+  }[];
+}
+
+interface OrderDetailProps {
+  data: OrderDetailData;
+}
+
+export const OrderDetail: React.FC<OrderDetailProps> = ({
+  data
+}) => {
+  const params = useParams();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [refundOpen, setRefundOpen] = useState(false);
+
+  const onChangeStatus = async (status: OrderStatus) => {
+    if (status === 'REFUNDED') {
+      return setRefundOpen(true);
+    }
+
+    if (status === 'CANCELLED' && data.isPaid) {
+      return setCancelOpen(true);
+    }
+
+    try {
+      setLoading(true);
+      await axios.patch(`/api/${params.storeId}/orders/${data.id}`, { status });
+      router.refresh();
+      toast.success('Status pesanan diperbarui.');
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefund = async (body: { items?: { orderItemId: string, quantity: number }[], reason?: string, cancel?: boolean }) => {
+    try {
+      setLoading(true);
+      await axios.post(`/api/${params.storeId}/orders/${data.id}/refund`, body);
+      router.refresh();
+      toast.success(body.cancel ? 'Pesanan dibatalkan dan dana dikembalikan.' : 'Dana berhasil dikembalikan.');
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+      setCancelOpen(false);
+      setRefundOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <AlertModal
+        isOpen={cancelOpen}
+        onClose={() => setCancelOpen(false)}
+        onConfirm={() => onRefund({ cancel: true })}
+        loading={loading}
+      />
+      <RefundModal
+        isOpen={refundOpen}
+        onClose={() => setRefundOpen(false)}
+        onConfirm={(items, reason) => onRefund({ items, reason })}
+        loading={loading}
+        items={data.orderItems}
+      />
+      <div className="flex items-center justify-between">
+        <Heading
+          title="Detail Pesanan"
+          description={`Dibuat pada ${data.createdAt}`}
+        />
+        <Badge variant="secondary">
+          {orderStatusLabels[data.status]}
+        </Badge>
+      </div>
+      <Separator />
+      <div className="flex items-center gap-x-2">
+        {orderStatusTransitions[data.status].map((status) => (
+          <Button
+            key={status}
+            disabled={loading || isBlockedByPrescription(status, data.prescription)}
+            variant={status === 'CANCELLED' || status === 'REFUNDED' ? 'destructive' : 'default'}
+            onClick={() => onChangeStatus(status)}
+          >
+            {orderStatusLabels[status]}
+          </Button>
+        ))}
+      </div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Produk</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nama Produk</TableHead>
+                <TableHead>Jumlah</TableHead>
+                <TableHead>Dikembalikan</TableHead>
+                <TableHead>Harga</TableHead>
+                <TableHead className="text-right">Subtotal</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.orderItems.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{item.name}</TableCell>
+                  <TableCell>{item.quantity}</TableCell>
+                  <TableCell>{item.quantity - item.refundableQuantity}</TableCell>
+                  <TableCell>{item.price}</TableCell>
+                  <TableCell className="text-right">{item.subtotal}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>Total Pembelian</TableCell>
+                <TableCell className="text-right">{data.totalPrice}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+      <div className="grid gap-4 grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pelanggan</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <DetailRow label="No. Telp" value={data.phone} />
+            <DetailRow label="Alamat" value={data.addressLine1} />
+            <DetailRow label="Alamat 2" value={data.addressLine2} />
+            <DetailRow label="Kota" value={data.city} />
+            <DetailRow label="Provinsi" value={data.state} />
+            <DetailRow label="Kode Pos" value={data.postalCode} />
+            <DetailRow label="Negara" value={data.country} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Pembayaran</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <DetailRow label="Status" value={data.isPaid ? 'Lunas' : 'Belum Dibayar'} />
+            <DetailRow label="Stripe Session" value={data.stripeSessionId} />
+            <DetailRow label="Payment Intent" value={data.paymentIntentId} />
+            <DetailRow label="Dana Dikembalikan" value={data.refundedAmount} />
+            <DetailRow label="Alasan Refund" value={data.refundReason} />
+          </CardContent>
+        </Card>
+      </div>
+      {data.prescription && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Resep Dokter</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <DetailRow label="Status" value={prescriptionStatusLabels[data.prescription.status]} />
+            <DetailRow label="Catatan" value={data.prescription.note} />
+            <div className="flex items-center justify-between gap-x-4">
+              <span className="text-muted-foreground">File</span>
+              <a
+                href={data.prescription.imageUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="font-medium underline"
+              >
+                Lihat Resep
+              </a>
+            </div>
+            {data.prescription.status !== 'APPROVED' && (
+              <p className="text-muted-foreground">
+                Pesanan baru dapat dikemas setelah resep disetujui apoteker.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+      <Card>
+        <CardHeader>
+          <CardTitle>Riwayat Status</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {data.statusHistory.length === 0 && (
+            <p className="text-sm text-muted-foreground">Belum ada perubahan status.</p>
+          )}
+          {data.statusHistory.map((item) => (
+            <div key={item.id} className="flex items-center justify-between text-sm">
+              <span>
+                {item.fromStatus ? `${orderStatusLabels[item.fromStatus]} → ` : ''}
+                {orderStatusLabels[item.toStatus]}
+              </span>
+              <span className="text-muted-foreground">{item.createdAt}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </>
+  );
+};
+
+const DetailRow: React.FC<{ label: string, value: string | null }> = ({
+  label,
+  value
+}) => {
+  return (
+    <div className="flex items-center justify-between gap-x-4">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium break-all text-right">{value || '-'}</span>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Modal } from '@/components/ui/modal';
+
+interface RefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (items: { orderItemId: string, quantity: number }[], reason: string) => void;
+  loading: boolean;
+  items: {
+    id: string;
+    name: string;
+    refundableQuantity: number;
+  }[];
+}
+
+export const RefundModal: React.FC<RefundModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  loading,
+  items
+}) => {
+  const [isMounted, setIsMounted] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuantities(Object.fromEntries(items.map((item) => [item.id, item.refundableQuantity])));
+      setReason('');
+    }
+  }, [isOpen, items]);
+
+  if (!isMounted) {
+    return null;
+  }
+
+  const refundableItems = items.filter((item) => item.refundableQuantity > 0);
+
+  const lines = refundableItems
+    .map((item) => ({ orderItemId: item.id, quantity: quantities[item.id] || 0 }))
+    .filter((line) => line.quantity > 0);
+
+  return (
+    <Modal
+      title="Refund Pesanan"
+      description="Pilih jumlah produk yang dananya dikembalikan. Stok produk akan dikembalikan."
+      isOpen={isOpen}
+      onClose={onClose}
+    >
+      <div className="space-y-4">
+        {refundableItems.map((item) => (
+          <div key={item.id} className="flex items-center justify-between gap-x-4">
+            <Label htmlFor={item.id}>{item.name}</Label>
+            <Input
+              id={item.id}
+              type="number"
+              className="w-24"
+              min={0}
+              max={item.refundableQuantity}
+              disabled={loading}
+              value={quantities[item.id] ?? 0}
+              onChange={(event) => setQuantities({
+                ...quantities,
+                [item.id]: Math.min(Math.max(Number(event.target.value) || 0, 0), item.refundableQuantity)
+              })}
+            />
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Label htmlFor="reason">Alasan</Label>
+          <Input
+            id="reason"
+            disabled={loading}
+            placeholder="Alasan refund"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+          />
+        </div>
+      </div>
+      <div className="pt-6 space-x-2 flex items-center justify-end w-full">
+        <Button disabled={loading} variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          disabled={loading || lines.length === 0}
+          variant="destructive"
+          onClick={() => onConfirm(lines, reason)}
+        >
+          Refund
+        </Button>
+      </div>
+    </Modal>
+  );
+};
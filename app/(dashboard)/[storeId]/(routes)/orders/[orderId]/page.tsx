@@ -0,0 +1,91 @@
+import { format } from "date-fns";
+import { redirect } from "next/navigation";
+
+import prismadb from "@/lib/prismadb";
+import { getFormatter } from "@/lib/currency";
+import { OrderDetail } from "./components/order-detail";
+
+const OrderPage = async ({
+    params
+}: {
+    params: { orderId: string, storeId: string }
+}) => {
+    const store = await prismadb.store.findUniqueOrThrow({
+        where: {
+            id: params.storeId
+        }
+    });
+
+    const order = await prismadb.order.findFirst({
+        where: {
+            id: params.orderId,
+            storeId: params.storeId
+        },
+        include: {
+            orderItems: true,
+            prescription: true,
+            statusHistory: {
+                orderBy: {
+                    createdAt: 'asc'
+                }
+            }
+        }
+    });
+
+    if (!order) {
+        redirect(`/${params.storeId}/orders`);
+    }
+
+    const formatter = getFormatter({ currency: order.currency, locale: store.locale });
+
+    return (
+        <div className="flex-col">
+            <div className="flex-1 space-y-4 p-8 pt-6">
+                <OrderDetail
+                    data={{
+                        id: order.id,
+                        status: order.status,
+                        isPaid: order.isPaid,
+                        phone: order.phone,
+                        addressLine1: order.addressLine1,
+                        addressLine2: order.addressLine2,
+                        city: order.city,
+                        state: order.state,
+                        postalCode: order.postalCode,
+                        country: order.country,
+                        stripeSessionId: order.stripeSessionId,
+                        paymentIntentId: order.paymentIntentId,
+                        refundedAmount: formatter.format(order.refundedAmount.toNumber()),
+                        refundReason: order.refundReason,
+                        prescription: order.prescription && {
+                            imageUrl: order.prescription.imageUrl,
+                            status: order.prescription.status,
+                            note: order.prescription.note
+                        },
+                        orderItems: order.orderItems.map((item) => ({
+                            id: item.id,
+                            productId: item.productId,
+                            name: item.name,
+                            quantity: item.quantity,
+                            refundableQuantity: item.quantity - item.refundedQuantity,
+                            price: formatter.format(item.price.toNumber()),
+                            subtotal: formatter.format(item.price.toNumber() * item.quantity)
+                        })),
+                        totalPrice: formatter.format(order.orderItems.reduce((total, item) => {
+                            return total + item.price.toNumber() * item.quantity
+                        }, 0)),
+                        createdAt: format(order.createdAt, "MMMM do, yyyy HH:mm"),
+                        statusHistory: order.statusHistory.map((item) => ({
+                            id: item.id,
+                            fromStatus: item.fromStatus,
+                            toStatus: item.toStatus,
+                            createdAt: format(item.createdAt, "MMMM do, yyyy HH:mm")
+                        }))
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
+
+export default OrderPage;
\ No newline at end of file
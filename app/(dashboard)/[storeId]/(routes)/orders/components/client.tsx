@@ -1,26 +1,43 @@
 'use client';
 
+import { useParams } from 'next/navigation';
+
 import { Heading } from '@/components/ui/heading';
 import { Separator } from '@/components/ui/separator';
 
 import { OrderColumn, columns } from './columns';
 import { DataTable } from '@/components/ui/data-table';
+import { TableFilter, TablePagination } from '@/lib/data-table';
 
 interface OrderClientProps {
   data: OrderColumn[];
+  pagination: TablePagination;
+  filters: TableFilter[];
 }
 
 export const OrderClient: React.FC<OrderClientProps> = ({ 
-data 
+data,
+pagination,
+filters
 }) => {
+  const params = useParams();
+
   return (
     <>
         <Heading
-          title={`Pesanan (${data.length})`}
+          title={`Pesanan (${pagination.total})`}
           description="Kelola Pesanan Anda di sini"
         />
       <Separator />
-      <DataTable searchKey="products" columns={columns} data={data} />
+      <DataTable
+        searchKey="products"
+        columns={columns}
+        data={data}
+        pagination={pagination}
+        filters={filters}
+        dateRange
+        exportUrl={`/api/${params.storeId}/orders/export`}
+      />
     </>
   );
 };
@@ -1,12 +1,14 @@
 "use client"
 
 import { ColumnDef } from "@tanstack/react-table"
+import { CellAction } from "./cell-action"
 
 export type OrderColumn = {
   id: string
   phone: string
   address: string
   isPaid: boolean
+  status: string
   totalPrice: string
   products: string
   createdAt: string;
@@ -33,4 +35,17 @@ export const columns: ColumnDef<OrderColumn>[] = [
     accessorKey: "isPaid",
     header: "Pembayaran",
   },
+  {
+    accessorKey: "status",
+    header: "Status",
+  },
+  {
+    accessorKey: "createdAt",
+    header: "Tanggal",
+    enableSorting: true,
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <CellAction data={row.original}/>
+  }
 ]
@@ -3,46 +3,77 @@ import { format } from "date-fns";
 import prismadb from "@/lib/prismadb";
 import { OrderClient } from "./components/client";
 import { OrderColumn } from "./components/columns";
-import { formatter } from "@/lib/utils";
+import { getFormatter } from "@/lib/currency";
+import { orderStatusLabels } from "@/lib/order-status";
+import { TableSearchParams, getTablePagination } from "@/lib/data-table";
+import { getOrderQuery, orderStatuses } from "@/lib/order-query";
 
 
 const OrdersPage = async ({
-    params
+    params,
+    searchParams
 }: {
-    params: { storeId: string }
+    params: { storeId: string },
+    searchParams: TableSearchParams
 }) => {
-    const orders = await prismadb.order.findMany({
+    const { tableParams, where, orderBy } = getOrderQuery(params.storeId, searchParams);
+
+    const store = await prismadb.store.findUniqueOrThrow({
         where: {
-            storeId: params.storeId
-        },
+            id: params.storeId
+        }
+    });
+
+    const total = await prismadb.order.count({ where });
+
+    const orders = await prismadb.order.findMany({
+        where,
         include: {
-            orderItems: {
-                include: {
-                    product: true
-                }
-            }
+            orderItems: true
         },
-        orderBy: {
-            createdAt: 'desc'
-        }
+        orderBy,
+        skip: tableParams.skip,
+        take: tableParams.take
     });
 
     const formattedOrders: OrderColumn[] = orders.map((item) => ({
         id: item.id,
         phone: item.phone,
         address: item.address,
-        products: item.orderItems.map((orderItem) => orderItem.product.name).join(', '),
-        totalPrice: formatter.format(item.orderItems.reduce((total, item) => {
-            return total + Number(item.product.price)
+        products: item.orderItems.map((orderItem) => `${orderItem.name} x${orderItem.quantity}`).join(', '),
+        totalPrice: getFormatter({ currency: item.currency, locale: store.locale }).format(item.orderItems.reduce((total, item) => {
+            return total + Number(item.price) * item.quantity
         }, 0)),
         isPaid: item.isPaid,
+        status: orderStatusLabels[item.status],
         createdAt: format(item.createdAt, "MMMM do, yyyy")
     }));
     
     return (
         <div className="flex-col">
             <div className="flex-1 space-y-4 p-8 pt-6">
-                <OrderClient data={formattedOrders}/>
+                <OrderClient
+                    data={formattedOrders}
+                    pagination={getTablePagination(tableParams, total)}
+                    filters={[
+                        {
+                            key: "payment",
+                            label: "Pembayaran",
+                            options: [
+                                { label: "Sudah Dibayar", value: "paid" },
+                                { label: "Belum Dibayar", value: "unpaid" }
+                            ]
+                        },
+                        {
+                            key: "status",
+                            label: "Status",
+                            options: orderStatuses.map((item) => ({
+                                label: orderStatusLabels[item],
+                                value: item
+                            }))
+                        }
+                    ]}
+                />
             </div>
         </div>
     )
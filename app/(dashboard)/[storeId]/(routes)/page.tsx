@@ -1,39 +1,66 @@
+import { format } from "date-fns";
+
+import { getExpiringStock } from "@/actions/get-expiring-stock";
 import { getGraphRevenue } from "@/actions/get-graph-revenue";
 import { getSalesCount } from "@/actions/get-sales-count";
 import { getStockCount } from "@/actions/get-stock-count";
 import { getTotalRevenue } from "@/actions/get-total-revenue";
+import { DashboardRangePicker } from "@/components/dashboard-range";
 import { Overview } from "@/components/overview";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Heading } from "@/components/ui/heading";
 import { Separator } from "@/components/ui/separator";
 import prismadb from "@/lib/prismadb";
-import { formatter } from "@/lib/utils";
-import { CreditCard, DollarSign, Package } from "lucide-react";
+import { getFormatter } from "@/lib/currency";
+import { getDashboardRange } from "@/lib/dashboard-range";
+import { TableSearchParams } from "@/lib/data-table";
+import { getExpiryWarningDays } from "@/lib/stock-batches";
+import { CalendarClock, CreditCard, DollarSign, Package } from "lucide-react";
 
 interface DashboardPageProps {
-    params: { storeId: string } 
+    params: { storeId: string },
+    searchParams: TableSearchParams
 };
 
 const DashboardPage: React.FC<DashboardPageProps> = async ({
-    params
+    params,
+    searchParams
 }) => {
-    const totalRevenue = await getTotalRevenue(params.storeId);
-    const salesCount = await getSalesCount(params.storeId);
+    const store = await prismadb.store.findUniqueOrThrow({
+        where: {
+            id: params.storeId
+        }
+    });
+
+    const formatter = getFormatter(store);
+    const range = getDashboardRange(searchParams);
+
+    const totalRevenue = await getTotalRevenue(params.storeId, range);
+    const salesCount = await getSalesCount(params.storeId, range);
     const stockCount = await getStockCount(params.storeId);
-    const graphRevenue = await getGraphRevenue(params.storeId);
+    const expiryWarningDays = getExpiryWarningDays();
+    const expiringStock = await getExpiringStock(params.storeId, expiryWarningDays);
+    const graphRevenue = await getGraphRevenue(params.storeId, range);
 
     return ( 
         <div className="flex-col">
             <div className="flex-1 space-y-4 p-8 pt-6">
-                <Heading title="Dashboard" description="Overview of your store"/>
+                <div className="flex items-center justify-between">
+                    <Heading title="Dashboard" description="Overview of your store"/>
+                    <DashboardRangePicker
+                        from={range.from}
+                        to={range.to}
+                        granularity={range.granularity}
+                    />
+                </div>
                 <Separator />
-                <div className="grid gap-4 grid-cols-3">
+                <div className="grid gap-4 grid-cols-4">
                     <Card>
                         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                             <CardTitle className="text-sm font-medium">
                                 Total Pendapatan
                             </CardTitle>
-                            <p className="h-5 w-5 text-sm text-muted-foreground">Rp</p>
+                            <p className="text-sm text-muted-foreground">{store.currency}</p>
                         </CardHeader>
                         <CardContent>
                             <div className="text-2xl font-bold">
@@ -67,13 +94,36 @@ const DashboardPage: React.FC<DashboardPageProps> = async ({
                             </div>
                         </CardContent>
                     </Card>
+                    <Card>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                            <CardTitle className="text-sm font-medium">
+                                Kedaluwarsa dalam {expiryWarningDays} Hari
+                            </CardTitle>
+                            <CalendarClock className="h-4 w-4 text-muted-foreground"/>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="text-2xl font-bold">
+                                {expiringStock.quantity}
+                            </div>
+                            <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                                {expiringStock.batches.slice(0, 3).map((batch) => (
+                                    <p key={batch.id}>
+                                        {batch.product.name} ({batch.batchNumber}) · {format(batch.expiryDate, "d MMM yyyy")}
+                                    </p>
+                                ))}
+                                {expiringStock.batches.length > 3 && (
+                                    <p>+{expiringStock.batches.length - 3} batch lainnya</p>
+                                )}
+                            </div>
+                        </CardContent>
+                    </Card>
                 </div>
                 <Card className="col-span-4">
                     <CardHeader>
                         <CardTitle>Overview</CardTitle>
                     </CardHeader>
                     <CardContent>
-                        <Overview data={graphRevenue} />
+                        <Overview data={graphRevenue} currency={store.currency} locale={store.locale} />
                     </CardContent>
                 </Card>
             </div>
@@ -0,0 +1,109 @@
+'use client';
+
+import axios from 'axios';
+import { toast } from 'react-hot-toast';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PrescriptionColumn } from './columns';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Modal } from '@/components/ui/modal';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, Eye, MoreHorizontal, X } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface CellActionProps {
+  data: PrescriptionColumn;
+}
+
+export const CellAction: React.FC<CellActionProps> = ({ data
+}) => {
+  const router = useRouter();
+  const params = useParams();
+
+  const [loading, setLoading] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
+  const [note, setNote] = useState('');
+
+  const onReview = async (status: 'APPROVED' | 'REJECTED') => {
+    try {
+      setLoading(true);
+      await axios.patch(`/api/${params.storeId}/prescriptions/${data.id}`, { status, note });
+      router.refresh();
+      toast.success(status === 'APPROVED' ? 'Resep disetujui.' : 'Resep ditolak.');
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+      setRejectOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <Modal
+        title="Tolak Resep"
+        description="Tuliskan alasan penolakan untuk pembeli."
+        isOpen={rejectOpen}
+        onClose={() => setRejectOpen(false)}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="note">Alasan</Label>
+          <Textarea
+            id="note"
+            disabled={loading}
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+          />
+        </div>
+        <div className="pt-6 space-x-2 flex items-center justify-end w-full">
+          <Button disabled={loading} variant="outline" onClick={() => setRejectOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={loading || !note.trim()}
+            variant="destructive"
+            onClick={() => onReview('REJECTED')}
+          >
+            Tolak
+          </Button>
+        </div>
+      </Modal>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-8 w-8 p-0">
+            <span className="sr-only">Open Menu</span>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+              Actions
+          </DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => router.push(`/${params.storeId}/orders/${data.orderId}`)}>
+            <Eye className="mr-2 h-4 w-4" />
+            Lihat Pesanan
+          </DropdownMenuItem>
+          {data.status === 'PENDING' && (
+            <>
+              <DropdownMenuItem disabled={loading} onClick={() => onReview('APPROVED')}>
+                <Check className="mr-2 h-4 w-4" />
+                Setujui
+              </DropdownMenuItem>
+              <DropdownMenuItem disabled={loading} onClick={() => setRejectOpen(true)}>
+                <X className="mr-2 h-4 w-4" />
+                Tolak
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
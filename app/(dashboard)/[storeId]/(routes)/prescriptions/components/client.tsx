@@ -0,0 +1,37 @@
+'use client';
+
+import { Heading } from '@/components/ui/heading';
+import { Separator } from '@/components/ui/separator';
+
+import { PrescriptionColumn, columns } from './columns';
+import { DataTable } from '@/components/ui/data-table';
+import { TableFilter, TablePagination } from '@/lib/data-table';
+
+interface PrescriptionClientProps {
+  data: PrescriptionColumn[];
+  pagination: TablePagination;
+  filters: TableFilter[];
+}
+
+export const PrescriptionClient: React.FC<PrescriptionClientProps> = ({
+  data,
+  pagination,
+  filters
+}) => {
+  return (
+    <>
+      <Heading
+        title={`Resep (${pagination.total})`}
+        description="Periksa resep dokter sebelum pesanan obat keras dikemas"
+      />
+      <Separator />
+      <DataTable
+        searchKey="products"
+        columns={columns}
+        data={data}
+        pagination={pagination}
+        filters={filters}
+      />
+    </>
+  );
+};
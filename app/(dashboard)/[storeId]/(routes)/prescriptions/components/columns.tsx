@@ -0,0 +1,64 @@
+"use client"
+
+import { PrescriptionStatus } from "@prisma/client"
+import { ColumnDef } from "@tanstack/react-table"
+
+import { CellAction } from "./cell-action"
+
+export type PrescriptionColumn = {
+  id: string
+  orderId: string
+  products: string
+  phone: string
+  imageUrl: string
+  status: PrescriptionStatus
+  statusLabel: string
+  orderStatus: string
+  note: string
+  createdAt: string
+}
+
+export const columns: ColumnDef<PrescriptionColumn>[] = [
+  {
+    accessorKey: "products",
+    header: "Obat Resep",
+  },
+  {
+    accessorKey: "phone",
+    header: "No. Telp",
+  },
+  {
+    accessorKey: "imageUrl",
+    header: "Resep",
+    cell: ({ row }) => (
+      <a
+        href={row.original.imageUrl}
+        target="_blank"
+        rel="noreferrer"
+        className="underline"
+      >
+        Lihat Resep
+      </a>
+    )
+  },
+  {
+    accessorKey: "statusLabel",
+    header: "Status",
+  },
+  {
+    accessorKey: "orderStatus",
+    header: "Status Pesanan",
+  },
+  {
+    accessorKey: "note",
+    header: "Catatan",
+  },
+  {
+    accessorKey: "createdAt",
+    header: "Tanggal",
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <CellAction data={row.original}/>
+  }
+]
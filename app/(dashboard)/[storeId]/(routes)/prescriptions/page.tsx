@@ -0,0 +1,100 @@
+import { format } from "date-fns";
+import { Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { PrescriptionClient } from "./components/client";
+import { PrescriptionColumn } from "./components/columns";
+import { orderStatusLabels } from "@/lib/order-status";
+import { prescriptionStatusLabels, prescriptionStatuses } from "@/lib/prescription";
+import { TableSearchParams, getFilterParam, getTablePagination, parseTableParams } from "@/lib/data-table";
+
+const PrescriptionsPage = async ({
+    params,
+    searchParams
+}: {
+    params: { storeId: string },
+    searchParams: TableSearchParams
+}) => {
+    const tableParams = parseTableParams(searchParams, []);
+
+    const where: Prisma.PrescriptionWhereInput = {
+        status: getFilterParam(searchParams, "status", prescriptionStatuses),
+        // Only paid orders still to be fulfilled need a review; abandoned checkouts and
+        // closed orders stay out of the queue.
+        order: {
+            storeId: params.storeId,
+            isPaid: true,
+            status: {
+                notIn: ["CANCELLED", "REFUNDED"],
+            },
+            OR: tableParams.search ? [
+                { phone: { contains: tableParams.search, mode: "insensitive" } },
+                { orderItems: { some: { name: { contains: tableParams.search, mode: "insensitive" } } } },
+            ] : undefined,
+        },
+    };
+
+    const total = await prismadb.prescription.count({ where });
+
+    // Pending prescriptions come first, oldest at the top, so the queue is worked in order.
+    const prescriptions = await prismadb.prescription.findMany({
+        where,
+        include: {
+            order: {
+                include: {
+                    orderItems: {
+                        include: {
+                            product: true
+                        }
+                    }
+                }
+            }
+        },
+        orderBy: [
+            { status: "asc" },
+            { createdAt: "asc" },
+            { id: "asc" }
+        ],
+        skip: tableParams.skip,
+        take: tableParams.take
+    });
+
+    const formattedPrescriptions: PrescriptionColumn[] = prescriptions.map((item) => ({
+        id: item.id,
+        orderId: item.order.id,
+        products: item.order.orderItems
+            .filter((orderItem) => orderItem.product.requiresPrescription)
+            .map((orderItem) => `${orderItem.name} x${orderItem.quantity}`)
+            .join(', '),
+        phone: item.order.phone,
+        imageUrl: item.imageUrl,
+        status: item.status,
+        statusLabel: prescriptionStatusLabels[item.status],
+        orderStatus: orderStatusLabels[item.order.status],
+        note: item.note || '',
+        createdAt: format(item.createdAt, "MMMM do, yyyy HH:mm")
+    }));
+
+    return (
+        <div className="flex-col">
+            <div className="flex-1 space-y-4 p-8 pt-6">
+                <PrescriptionClient
+                    data={formattedPrescriptions}
+                    pagination={getTablePagination(tableParams, total)}
+                    filters={[
+                        {
+                            key: "status",
+                            label: "Status",
+                            options: prescriptionStatuses.map((item) => ({
+                                label: prescriptionStatusLabels[item],
+                                value: item
+                            }))
+                        }
+                    ]}
+                />
+            </div>
+        </div>
+    );
+}
+
+export default PrescriptionsPage;
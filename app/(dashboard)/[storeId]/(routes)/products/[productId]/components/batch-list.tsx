@@ -0,0 +1,221 @@
+'use client';
+
+import axios from 'axios';
+import { Trash } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Heading } from '@/components/ui/heading';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+export type BatchData = {
+  id: string;
+  variant: string | null;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  isExpired: boolean;
+}
+
+interface BatchListProps {
+  data: BatchData[];
+  variants: { id: string, label: string }[];
+}
+
+const emptyBatch = { variantId: '', batchNumber: '', expiryDate: '', quantity: '' };
+
+export const BatchList: React.FC<BatchListProps> = ({
+  data,
+  variants
+}) => {
+  const params = useParams();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(false);
+  const [batch, setBatch] = useState(emptyBatch);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const url = `/api/${params.storeId}/products/${params.productId}/batches`;
+
+  const onRequest = async (request: () => Promise<unknown>, message: string) => {
+    try {
+      setLoading(true);
+      await request();
+      router.refresh();
+      toast.success(message);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        toast.error(String(error.response.data));
+      } else {
+        toast.error('Ada sesuatu yang salah');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onCreate = () => onRequest(async () => {
+    await axios.post(url, {
+      ...batch,
+      variantId: batch.variantId || undefined,
+      quantity: Number(batch.quantity)
+    });
+    setBatch(emptyBatch);
+  }, 'Batch ditambahkan.');
+
+  const onUpdate = (item: BatchData) => onRequest(async () => {
+    await axios.patch(`${url}/${item.id}`, {
+      batchNumber: item.batchNumber,
+      expiryDate: item.expiryDate,
+      quantity: Number(quantities[item.id]),
+    });
+    setQuantities({ ...quantities, [item.id]: '' });
+  }, 'Batch diperbarui.');
+
+  const onDelete = (item: BatchData) => onRequest(
+    () => axios.delete(`${url}/${item.id}`),
+    'Batch dihapus.'
+  );
+
+  return (
+    <>
+      <Separator />
+      <Heading
+        title="Batch & Kedaluwarsa"
+        description="Stok dikeluarkan dari batch yang paling cepat kedaluwarsa (FEFO)"
+      />
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {variants.length > 0 && <TableHead>Varian</TableHead>}
+              <TableHead>No. Batch</TableHead>
+              <TableHead>Kedaluwarsa</TableHead>
+              <TableHead>Jumlah</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.map((item) => (
+              <TableRow key={item.id}>
+                {variants.length > 0 && <TableCell>{item.variant}</TableCell>}
+                <TableCell>{item.batchNumber}</TableCell>
+                <TableCell>
+                  {item.expiryDate}
+                  {item.isExpired && (
+                    <Badge variant="destructive" className="ml-2">Kedaluwarsa</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-x-2">
+                    <Input
+                      type="number"
+                      disabled={loading}
+                      className="w-24"
+                      placeholder={String(item.quantity)}
+                      value={quantities[item.id] || ''}
+                      onChange={(event) => setQuantities({ ...quantities, [item.id]: event.target.value })}
+                    />
+                    <Button
+                      disabled={loading || !quantities[item.id] || Number(quantities[item.id]) < 0}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onUpdate(item)}
+                    >
+                      Simpan
+                    </Button>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    disabled={loading}
+                    variant="destructive"
+                    size="icon"
+                    onClick={() => onDelete(item)}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              {variants.length > 0 && (
+                <TableCell>
+                  <Select
+                    disabled={loading}
+                    value={batch.variantId}
+                    onValueChange={(value) => setBatch({ ...batch, variantId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih Varian" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {variants.map((variant) => (
+                        <SelectItem key={variant.id} value={variant.id}>
+                          {variant.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              )}
+              <TableCell>
+                <Input
+                  disabled={loading}
+                  placeholder="No. Batch"
+                  value={batch.batchNumber}
+                  onChange={(event) => setBatch({ ...batch, batchNumber: event.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="date"
+                  disabled={loading}
+                  value={batch.expiryDate}
+                  onChange={(event) => setBatch({ ...batch, expiryDate: event.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  disabled={loading}
+                  className="w-24"
+                  placeholder="0"
+                  value={batch.quantity}
+                  onChange={(event) => setBatch({ ...batch, quantity: event.target.value })}
+                />
+              </TableCell>
+              <TableCell className="text-right">
+                <Button
+                  disabled={
+                    loading ||
+                    (variants.length > 0 && !batch.variantId) ||
+                    !batch.batchNumber ||
+                    !batch.expiryDate ||
+                    batch.quantity === ''
+                  }
+                  onClick={onCreate}
+                >
+                  Tambah Batch
+                </Button>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+};
@@ -13,12 +13,13 @@ import {
 } from '@/components/ui/form';
 import { Heading } from '@/components/ui/heading';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Category, Color, Image, Product, Size } from '@prisma/client';
-import { Trash } from 'lucide-react';
+import { ActiveIngredient, Category, Color, Image, Product, ProductVariant, Size, StockBatch } from '@prisma/client';
+import { Plus, Trash, X } from 'lucide-react';
 import { useState } from 'react';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
 import * as z from 'zod';
 import { toast } from 'react-hot-toast';
 import { useParams, useRouter } from 'next/navigation';
@@ -26,16 +27,69 @@ import { AlertModal } from '@/components/modals/alert-modals';
 import ImageUpload from '@/components/ui/image-upload';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { isBarcode, normalizeBarcode } from '@/lib/barcodes';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+// Empty means no barcode; spaces and dashes between digit groups are ignored.
+const barcodeSchema = z.string().refine((value) => !value || isBarcode(normalizeBarcode(value)), {
+  message: 'Barcode harus berupa EAN-8, UPC-A atau EAN-13 yang valid',
+});
 
 const formSchema = z.object({
   name: z.string().min(1),
   images: z.object({ url: z.string() }).array(),
-  price: z.coerce.number().min(1),
+  price: z.coerce.number(),
+  stock: z.coerce.number().int(),
   categoryId: z.string().min(1),
-  colorId: z.string().min(1),
-  sizeId: z.string().min(1),
+  colorId: z.string(),
+  sizeId: z.string(),
   isFeatured: z.boolean().default(false).optional(),
   isArchived: z.boolean().default(false).optional(),
+  requiresPrescription: z.boolean().default(false).optional(),
+  manufacturer: z.string(),
+  registrationNumber: z.string(),
+  packageContents: z.string(),
+  indications: z.string(),
+  contraindications: z.string(),
+  sku: z.string(),
+  barcode: barcodeSchema,
+  activeIngredients: z.object({
+    name: z.string().min(1),
+    strength: z.string().min(1),
+  }).array(),
+  variants: z.object({
+    sizeId: z.string().min(1),
+    colorId: z.string().min(1),
+    price: z.coerce.number().min(1),
+    stock: z.coerce.number().int(),
+    sku: z.string(),
+    barcode: barcodeSchema,
+  }).array(),
+}).superRefine((values, ctx) => {
+  // With variants the product's own price, size and color are derived from them.
+  if (values.variants.length > 0) {
+    return;
+  }
+
+  if (values.price < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.too_small, minimum: 1, inclusive: true, type: 'number', path: ['price'] });
+  }
+
+  if (!values.sizeId) {
+    ctx.addIssue({ code: z.ZodIssueCode.too_small, minimum: 1, inclusive: true, type: 'string', path: ['sizeId'] });
+  }
+
+  if (!values.colorId) {
+    ctx.addIssue({ code: z.ZodIssueCode.too_small, minimum: 1, inclusive: true, type: 'string', path: ['colorId'] });
+  }
 });
 
 type ProductFormValues = z.infer<typeof formSchema>;
@@ -43,6 +97,9 @@ type ProductFormValues = z.infer<typeof formSchema>;
 interface ProductFormProps {
   initialData: Product & {
     images: Image[]
+    activeIngredients: ActiveIngredient[]
+    batches: StockBatch[]
+    variants: ProductVariant[]
   } | null;
   categories: Category[];
   colors: Color[];
@@ -61,33 +118,129 @@ export const ProductForm: React.FC<ProductFormProps> = ({
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  const hasBatches = !!initialData?.batches.length;
+
+  // A variant's stock follows its batches once it has any.
+  const isBatchedVariant = (sizeId: string, colorId: string) => {
+    const variant = initialData?.variants.find((item) => item.sizeId === sizeId && item.colorId === colorId);
+
+    return !!variant && !!initialData?.batches.some((batch) => batch.variantId === variant.id);
+  };
+
+  const [variantSizeIds, setVariantSizeIds] = useState(() => (
+    Array.from(new Set(initialData?.variants.map((variant) => variant.sizeId)))
+  ));
+  const [variantColorIds, setVariantColorIds] = useState(() => (
+    Array.from(new Set(initialData?.variants.map((variant) => variant.colorId)))
+  ));
+
   const title = initialData ? 'Edit Produk' : 'Buat Produk Baru';
   const description = initialData ? 'Edit produk' : 'Buat Produk Baru';
   const toastMessage = initialData ? 'Produk di Perbarui.' : 'Produk berhasil dibuat';
   const action = initialData ? "Simpan Perubahan" : "Buat Baru";
 
+  // Stock below zero comes from oversold orders; it may be kept as loaded but not entered.
+  const isNewNegativeStock = (stock: number, loadedStock?: number) => stock < 0 && stock !== loadedStock;
+
+  const schema = formSchema.superRefine((values, ctx) => {
+    if (values.variants.length === 0 && isNewNegativeStock(values.stock, initialData?.stock)) {
+      ctx.addIssue({ code: z.ZodIssueCode.too_small, minimum: 0, inclusive: true, type: 'number', path: ['stock'] });
+    }
+
+    values.variants.forEach((variant, index) => {
+      const saved = initialData?.variants.find((item) => item.sizeId === variant.sizeId && item.colorId === variant.colorId);
+
+      if (isNewNegativeStock(variant.stock, saved?.stock)) {
+        ctx.addIssue({ code: z.ZodIssueCode.too_small, minimum: 0, inclusive: true, type: 'number', path: ['variants', index, 'stock'] });
+      }
+    });
+  });
+
   const form = useForm<ProductFormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(schema),
     defaultValues: initialData ? {
       ...initialData,
       price: parseFloat(String(initialData?.price)),
+      sku: initialData.sku || '',
+      barcode: initialData.barcode || '',
+      variants: initialData.variants.map((variant) => ({
+        sizeId: variant.sizeId,
+        colorId: variant.colorId,
+        price: parseFloat(String(variant.price)),
+        stock: variant.stock,
+        sku: variant.sku || '',
+        barcode: variant.barcode || '',
+      })),
     } : {
       name: '',
       images: [],
       price: 0,
+      stock: 0,
       categoryId: '',
       colorId: '',
       sizeId: '',
       isFeatured: false,
       isArchived: false,
+      requiresPrescription: false,
+      manufacturer: '',
+      registrationNumber: '',
+      packageContents: '',
+      indications: '',
+      contraindications: '',
+      sku: '',
+      barcode: '',
+      activeIngredients: [],
+      variants: [],
     },
   });
 
+  const activeIngredients = useFieldArray({
+    control: form.control,
+    name: 'activeIngredients',
+  });
+
+  const variants = useFieldArray({
+    control: form.control,
+    name: 'variants',
+  });
+
+  const hasVariants = variants.fields.length > 0;
+
+  // Rebuilds the matrix from the checked sizes and colors, keeping the values already
+  // entered for combinations that stay.
+  const onVariantOptionsChange = (sizeIds: string[], colorIds: string[]) => {
+    setVariantSizeIds(sizeIds);
+    setVariantColorIds(colorIds);
+
+    const current = form.getValues('variants');
+
+    variants.replace(sizes
+      .filter((size) => sizeIds.includes(size.id))
+      .flatMap((size) => colors
+        .filter((color) => colorIds.includes(color.id))
+        .map((color) => current.find((variant) => (
+          variant.sizeId === size.id && variant.colorId === color.id
+        )) || {
+          sizeId: size.id,
+          colorId: color.id,
+          price: form.getValues('price'),
+          stock: 0,
+          sku: '',
+          barcode: '',
+        })
+      )
+    );
+  };
+
+  const toggleOption = (ids: string[], id: string, checked: boolean) => {
+    return checked ? [...ids, id] : ids.filter((current) => current !== id);
+  };
+
   const onSubmit = async (data: ProductFormValues) => {
     try {
       setLoading(true);
       if (initialData) {
-        await axios.patch(`/api/${params.storeId}/products/${params.productId}`, data);
+        await axios.patch(`/api/${params.storeId}/products/${params.productId}`, { ...data, loadedStock: initialData.stock });
       } else {
         await axios.post(`/api/${params.storeId}/products`, data);
       } 
@@ -95,7 +248,11 @@ export const ProductForm: React.FC<ProductFormProps> = ({
       router.push(`/${params.storeId}/products`)
       toast.success(toastMessage);
     } catch (error) {
-      toast.error("Ada sesuatu yang salah");
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        toast.error(String(error.response.data));
+      } else {
+        toast.error("Ada sesuatu yang salah");
+      }
     } finally {
       setLoading(false);
     }
@@ -180,24 +337,51 @@ export const ProductForm: React.FC<ProductFormProps> = ({
                 </FormItem>
               )}
             />
-            <FormField
-              control={form.control}
-              name="price"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Harga</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      disabled={loading}
-                      placeholder="Rp 10.000,00"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {!hasVariants && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Harga</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          disabled={loading}
+                          placeholder="Rp 10.000,00"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="stock"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Stok</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          disabled={loading || hasBatches}
+                          placeholder="0"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {hasBatches
+                          ? 'Stok dihitung dari jumlah batch di bawah'
+                          : 'Produk disembunyikan dari toko selama stok habis'}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
             <FormField
               control={form.control}
               name="categoryId"
@@ -236,76 +420,117 @@ export const ProductForm: React.FC<ProductFormProps> = ({
             />
             <FormField
               control={form.control}
-              name="sizeId"
+              name="sku"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Bentuk Obat</FormLabel>
-                    <Select
-                      disabled={loading} 
-                      onValueChange={field.onChange} 
-                      value={field.value} 
-                      defaultValue={field.value} 
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue
-                            defaultValue={field.value}
-                            placeholder="Pilih Bentuk Obat"
-                          
-                          />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {sizes.map((size) => (
-                          <SelectItem
-                            key={size.id}
-                            value={size.id}
-                          >
-                            {size.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                  <FormLabel>SKU</FormLabel>
+                  <FormControl>
+                    <Input
+                      disabled={loading}
+                      placeholder="PCT-500-10"
+                      {...field}
+                    />
+                  </FormControl>
                   <FormMessage />
                 </FormItem>
               )}
             />
             <FormField
               control={form.control}
-              name="colorId"
+              name="barcode"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Tipe Obat</FormLabel>
-                    <Select
-                      disabled={loading} 
-                      onValueChange={field.onChange} 
-                      value={field.value} 
-                      defaultValue={field.value} 
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue
-                            defaultValue={field.value}
-                            placeholder="Pilih Tipe Obat"
-                          
-                          />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        {colors.map((color) => (
-                          <SelectItem
-                            key={color.id}
-                            value={color.id}
-                          >
-                            {color.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                  <FormLabel>Barcode</FormLabel>
+                  <FormControl>
+                    <Input
+                      disabled={loading}
+                      placeholder="8991234567890"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    EAN-13, EAN-8 atau UPC-A
+                  </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
+            {!hasVariants && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="sizeId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bentuk Obat</FormLabel>
+                        <Select
+                          disabled={loading} 
+                          onValueChange={field.onChange} 
+                          value={field.value} 
+                          defaultValue={field.value} 
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue
+                                defaultValue={field.value}
+                                placeholder="Pilih Bentuk Obat"
+                              
+                              />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {sizes.map((size) => (
+                              <SelectItem
+                                key={size.id}
+                                value={size.id}
+                              >
+                                {size.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="colorId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipe Obat</FormLabel>
+                        <Select
+                          disabled={loading} 
+                          onValueChange={field.onChange} 
+                          value={field.value} 
+                          defaultValue={field.value} 
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue
+                                defaultValue={field.value}
+                                placeholder="Pilih Tipe Obat"
+                              
+                              />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {colors.map((color) => (
+                              <SelectItem
+                                key={color.id}
+                                value={color.id}
+                              >
+                                {color.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
             <FormField
               control={form.control}
               name="isFeatured"
@@ -352,6 +577,324 @@ export const ProductForm: React.FC<ProductFormProps> = ({
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="requiresPrescription"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox 
+                      checked={field.value}
+                      // @ts-ignore
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                  <div className='space-y-1 leading-none'>
+                    <FormLabel>
+                      Obat Keras / Resep
+                    </FormLabel>
+                      <FormDescription>
+                        Pembeli wajib mengunggah resep dokter saat checkout
+                      </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+          </div>
+          <Heading
+            title="Varian"
+            description="Pilih bentuk dan tipe obat untuk membuat varian dengan harga dan stok masing-masing"
+          />
+          <div className="grid grid-cols-2 gap-8">
+            <div className="space-y-4">
+              <FormLabel>Bentuk Obat</FormLabel>
+              {sizes.map((size) => (
+                <div key={size.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`variant-size-${size.id}`}
+                    disabled={loading}
+                    checked={variantSizeIds.includes(size.id)}
+                    onCheckedChange={(checked) => onVariantOptionsChange(
+                      toggleOption(variantSizeIds, size.id, checked === true),
+                      variantColorIds
+                    )}
+                  />
+                  <Label htmlFor={`variant-size-${size.id}`} className="font-normal">
+                    {size.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-4">
+              <FormLabel>Tipe Obat</FormLabel>
+              {colors.map((color) => (
+                <div key={color.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`variant-color-${color.id}`}
+                    disabled={loading}
+                    checked={variantColorIds.includes(color.id)}
+                    onCheckedChange={(checked) => onVariantOptionsChange(
+                      variantSizeIds,
+                      toggleOption(variantColorIds, color.id, checked === true)
+                    )}
+                  />
+                  <Label htmlFor={`variant-color-${color.id}`} className="font-normal">
+                    {color.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          {hasVariants && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Varian</TableHead>
+                    <TableHead>Harga</TableHead>
+                    <TableHead>Stok</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Barcode</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {variants.fields.map((variant, index) => (
+                    <TableRow key={variant.id}>
+                      <TableCell>
+                        {sizes.find((size) => size.id === variant.sizeId)?.name}
+                        {' / '}
+                        {colors.find((color) => color.id === variant.colorId)?.name}
+                      </TableCell>
+                      <TableCell>
+                        <FormField
+                          control={form.control}
+                          name={`variants.${index}.price`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  disabled={loading}
+                                  placeholder="Rp 10.000,00"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <FormField
+                          control={form.control}
+                          name={`variants.${index}.stock`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  disabled={loading || isBatchedVariant(variant.sizeId, variant.colorId)}
+                                  placeholder="0"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <FormField
+                          control={form.control}
+                          name={`variants.${index}.sku`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  disabled={loading}
+                                  placeholder="SKU"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <FormField
+                          control={form.control}
+                          name={`variants.${index}.barcode`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  disabled={loading}
+                                  placeholder="8991234567890"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <Heading title="Informasi Obat" description="Komposisi, produsen dan izin edar produk" />
+          <div className="grid grid-cols-3 gap-8">
+            <FormField
+              control={form.control}
+              name="manufacturer"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Produsen</FormLabel>
+                  <FormControl>
+                    <Input
+                      disabled={loading}
+                      placeholder="PT Kimia Farma"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="registrationNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>No. Izin Edar (BPOM)</FormLabel>
+                  <FormControl>
+                    <Input
+                      disabled={loading}
+                      placeholder="DKL1234567890A1"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Nomor registrasi BPOM / NIE
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="packageContents"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Isi Kemasan</FormLabel>
+                  <FormControl>
+                    <Input
+                      disabled={loading}
+                      placeholder="10 strip x 10 tablet"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <div className="space-y-4">
+            <FormLabel>Zat Aktif</FormLabel>
+            {activeIngredients.fields.map((ingredient, index) => (
+              <div key={ingredient.id} className="flex items-start gap-x-2">
+                <FormField
+                  control={form.control}
+                  name={`activeIngredients.${index}.name`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input
+                          disabled={loading}
+                          placeholder="Paracetamol"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`activeIngredients.${index}.strength`}
+                  render={({ field }) => (
+                    <FormItem className="w-48">
+                      <FormControl>
+                        <Input
+                          disabled={loading}
+                          placeholder="500 mg"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  disabled={loading}
+                  variant="outline"
+                  size="icon"
+                  onClick={() => activeIngredients.remove(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              disabled={loading}
+              variant="outline"
+              size="sm"
+              onClick={() => activeIngredients.append({ name: '', strength: '' })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Tambah Zat Aktif
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-8">
+            <FormField
+              control={form.control}
+              name="indications"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Indikasi</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      disabled={loading}
+                      placeholder="Meredakan demam dan nyeri ringan"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="contraindications"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Kontraindikasi</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      disabled={loading}
+                      placeholder="Gangguan fungsi hati berat"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
           <Button disabled={loading} className="ml-auto" type="submit">
             {action}
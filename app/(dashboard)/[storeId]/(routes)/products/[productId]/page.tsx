@@ -1,5 +1,9 @@
+import { format } from "date-fns";
+
 import prismadb from "@/lib/prismadb";
 import { ProductForm } from "./components/product-form";
+import { BatchList } from "./components/batch-list";
+import { getVariantLabel } from "@/lib/product-variants";
 import { Prisma } from "@prisma/client";
 
 const ProductPage = async ({
@@ -12,25 +16,47 @@ const ProductPage = async ({
             id: params.productId
         },
         include: {
-            images: true
+            images: true,
+            activeIngredients: {
+                orderBy: {
+                    position: 'asc'
+                }
+            },
+            batches: {
+                orderBy: {
+                    expiryDate: 'asc'
+                }
+            },
+            variants: {
+                include: {
+                    size: true,
+                    color: true
+                },
+                orderBy: {
+                    position: 'asc'
+                }
+            }
         }
     });
 
     const categories = await prismadb.category.findMany({
         where: {
             storeId: params.storeId,
+            deletedAt: null
         }
     })
 
     const sizes = await prismadb.size.findMany({
         where: {
             storeId: params.storeId,
+            deletedAt: null
         }
     })
 
     const colors = await prismadb.color.findMany({
         where: {
             storeId: params.storeId,
+            deletedAt: null
         }
     })
 
@@ -43,6 +69,24 @@ const ProductPage = async ({
                     sizes={sizes}
                     initialData={product}
                 />
+                {product && (
+                    <BatchList
+                        variants={product.variants.map((variant) => ({
+                            id: variant.id,
+                            label: getVariantLabel(variant)
+                        }))}
+                        data={product.batches.map((batch) => ({
+                            id: batch.id,
+                            variant: batch.variantId
+                                ? getVariantLabel(product.variants.find((variant) => variant.id === batch.variantId)!)
+                                : null,
+                            batchNumber: batch.batchNumber,
+                            expiryDate: format(batch.expiryDate, "yyyy-MM-dd"),
+                            quantity: batch.quantity,
+                            isExpired: batch.expiryDate <= new Date()
+                        }))}
+                    />
+                )}
             </div>
         </div>
     );
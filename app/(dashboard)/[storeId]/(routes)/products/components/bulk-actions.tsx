@@ -0,0 +1,164 @@
+'use client';
+
+import axios from 'axios';
+import { ChevronDown } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Modal } from '@/components/ui/modal';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BulkDeleteAction, notifyBulkResult } from '@/components/bulk-actions';
+
+interface ProductBulkActionsProps {
+  ids: string[];
+  categories: { id: string, name: string }[];
+  onDone: () => void;
+}
+
+export const ProductBulkActions: React.FC<ProductBulkActionsProps> = ({
+  ids,
+  categories,
+  onDone
+}) => {
+  const router = useRouter();
+  const params = useParams();
+
+  const [loading, setLoading] = useState(false);
+  const [modal, setModal] = useState<'category' | 'price' | null>(null);
+  const [categoryId, setCategoryId] = useState('');
+  const [percentage, setPercentage] = useState('');
+
+  const onAction = async (action: string, values: Record<string, unknown> = {}) => {
+    try {
+      setLoading(true);
+      const response = await axios.post(`/api/${params.storeId}/products/bulk`, { action, ids, ...values });
+      notifyBulkResult(response.data);
+      onDone();
+      router.refresh();
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+      setModal(null);
+    }
+  };
+
+  // Opens the sheet in a new tab, where the browser can print or save it.
+  const onPrintLabels = (format: 'pdf' | 'svg') => {
+    const query = new URLSearchParams({ ids: ids.join(','), format });
+
+    window.open(`/api/${params.storeId}/products/labels?${query}`, '_blank');
+  };
+
+  return (
+    <>
+      <Modal
+        title="Ubah Kategori"
+        description="Pindahkan produk yang dipilih ke kategori lain."
+        isOpen={modal === 'category'}
+        onClose={() => setModal(null)}
+      >
+        <Select disabled={loading} value={categoryId} onValueChange={setCategoryId}>
+          <SelectTrigger>
+            <SelectValue placeholder="Pilih Kategori" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((category) => (
+              <SelectItem key={category.id} value={category.id}>
+                {category.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="pt-6 space-x-2 flex items-center justify-end w-full">
+          <Button disabled={loading} variant="outline" onClick={() => setModal(null)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={loading || !categoryId}
+            onClick={() => onAction('setCategory', { categoryId })}
+          >
+            Simpan
+          </Button>
+        </div>
+      </Modal>
+      <Modal
+        title="Ubah Harga"
+        description="Naikkan atau turunkan harga produk yang dipilih dalam persen, misalnya 10 atau -15."
+        isOpen={modal === 'price'}
+        onClose={() => setModal(null)}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="percentage">Persentase</Label>
+          <Input
+            id="percentage"
+            type="number"
+            disabled={loading}
+            value={percentage}
+            onChange={(event) => setPercentage(event.target.value)}
+          />
+        </div>
+        <div className="pt-6 space-x-2 flex items-center justify-end w-full">
+          <Button disabled={loading} variant="outline" onClick={() => setModal(null)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={loading || percentage === '' || Number(percentage) <= -100}
+            onClick={() => onAction('adjustPrice', { percentage: Number(percentage) })}
+          >
+            Simpan
+          </Button>
+        </div>
+      </Modal>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button disabled={loading} variant="outline" size="sm">
+            Aksi Massal
+            <ChevronDown className="ml-2 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onClick={() => onAction('archive')}>
+            Arsipkan
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onAction('unarchive')}>
+            Batalkan Arsip
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => onAction('feature')}>
+            Jual
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onAction('unfeature')}>
+            Batalkan Jual
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setModal('category')}>
+            Ubah Kategori
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setModal('price')}>
+            Ubah Harga
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => onPrintLabels('pdf')}>
+            Cetak Label Barcode (PDF)
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onPrintLabels('svg')}>
+            Cetak Label Barcode (SVG)
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <BulkDeleteAction entity="products" ids={ids} onDone={onDone} />
+    </>
+  );
+};
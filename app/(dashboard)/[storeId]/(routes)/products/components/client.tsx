@@ -3,18 +3,28 @@
 import { Button } from '@/components/ui/button';
 import { Heading } from '@/components/ui/heading';
 import { Separator } from '@/components/ui/separator';
-import { Plus } from 'lucide-react';
+import { Plus, Trash, Upload } from 'lucide-react';
 import { useParams, useRouter } from 'next/navigation';
 
 import { ProductColumn, columns } from './columns';
 import { DataTable } from '@/components/ui/data-table';
+import { TableFilter, TablePagination } from '@/lib/data-table';
 import { ApiList } from '@/components/ui/api-list';
+import { ProductBulkActions } from './bulk-actions';
 
 interface ProductClientProps {
   data: ProductColumn[];
+  pagination: TablePagination;
+  filters: TableFilter[];
+  categories: { id: string, name: string }[];
 }
 
-export const ProductClient: React.FC<ProductClientProps> = ({ data }) => {
+export const ProductClient: React.FC<ProductClientProps> = ({
+  data,
+  pagination,
+  filters,
+  categories
+}) => {
   const router = useRouter();
   const params = useParams();
 
@@ -22,18 +32,46 @@ export const ProductClient: React.FC<ProductClientProps> = ({ data }) => {
     <>
       <div className="flex items-center justify-between">
         <Heading
-          title={`Produk (${data.length})`}
+          title={`Produk (${pagination.total})`}
           description="Kelola Produk Anda Disini"
         />
-        <Button
-          onClick={() => router.push(`/${params.storeId}/products/new`)}
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Buat Baru
-        </Button>
+        <div className="flex items-center gap-x-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/${params.storeId}/products/import`)}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Impor
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/${params.storeId}/trash?entity=products`)}
+          >
+            <Trash className="mr-2 h-4 w-4" />
+            Sampah
+          </Button>
+          <Button
+            onClick={() => router.push(`/${params.storeId}/products/new`)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Buat Baru
+          </Button>
+        </div>
       </div>
       <Separator />
-      <DataTable searchKey="name" columns={columns} data={data} />
+      <DataTable
+        searchKey="name"
+        searchPlaceholder="Cari nama, SKU atau barcode"
+        columns={columns}
+        data={data}
+        pagination={pagination}
+        filters={filters}
+        dateRange
+        exportUrl={`/api/${params.storeId}/products/export`}
+        renderBulkActions={(ids, clearSelection) => (
+          <ProductBulkActions ids={ids} categories={categories} onDone={clearSelection} />
+        )}
+      />
       {/* <Heading title="API" description="Api calls for Products" />
       <Separator />
       <ApiList entityName="products" entityIdName="productId" /> */}
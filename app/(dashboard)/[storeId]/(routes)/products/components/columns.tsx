@@ -7,9 +7,11 @@ export type ProductColumn = {
   id: string
   name: string
   price: string
+  stock: number
   size: string;
   category: string;
   color: string;
+  variants: number;
   isFeatured: boolean;
   isArchived: boolean;
   createdAt: string;
@@ -19,6 +21,7 @@ export const columns: ColumnDef<ProductColumn>[] = [
   {
     accessorKey: "name",
     header: "Nama",
+    enableSorting: true,
   },
   {
     accessorKey: "isArchived",
@@ -31,6 +34,12 @@ export const columns: ColumnDef<ProductColumn>[] = [
   {
     accessorKey: "price",
     header: "Harga",
+    enableSorting: true,
+  },
+  {
+    accessorKey: "stock",
+    header: "Stok",
+    enableSorting: true,
   },
   {
     accessorKey: "category",
@@ -53,9 +62,14 @@ export const columns: ColumnDef<ProductColumn>[] = [
       </div>
     )
   },
+  {
+    accessorKey: "variants",
+    header: "Varian",
+  },
   {
     accessorKey: "createdAt",
     header: "Tanggal",
+    enableSorting: true,
   },
   {
     id: "actions",
@@ -0,0 +1,243 @@
+'use client';
+
+import axios from 'axios';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+
+import { Button } from '@/components/ui/button';
+import { Heading } from '@/components/ui/heading';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { parseCsv } from '@/lib/csv';
+import { ProductImportReport } from '@/lib/product-import';
+
+// Select items cannot carry an empty value, so this stands in for an unmapped field.
+const NONE = 'NONE';
+
+interface ProductImportProps {
+  billboards: { id: string, label: string }[];
+  fields: { key: string, label: string, required: boolean, aliases: string[] }[];
+  maxRows: number;
+}
+
+export const ProductImport: React.FC<ProductImportProps> = ({
+  billboards,
+  fields,
+  maxRows
+}) => {
+  const router = useRouter();
+  const params = useParams();
+
+  const [loading, setLoading] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [billboardId, setBillboardId] = useState('');
+  const [report, setReport] = useState<ProductImportReport | null>(null);
+
+  const onFileChange = async (file?: File) => {
+    setReport(null);
+
+    if (!file) {
+      return;
+    }
+
+    const { headers, rows } = parseCsv(await file.text());
+
+    if (rows.length > maxRows) {
+      toast.error(`Maksimal ${maxRows} baris per impor.`);
+      return;
+    }
+
+    setHeaders(headers);
+    setRecords(rows);
+    setMapping(Object.fromEntries(fields.map((field) => {
+      const index = headers.findIndex((header) => field.aliases.includes(header.toLowerCase()));
+
+      return [field.key, index >= 0 ? String(index) : NONE];
+    })));
+  };
+
+  const getRows = () => records.map((record) => Object.fromEntries(
+    fields
+      .filter((field) => mapping[field.key] !== NONE)
+      .map((field) => [field.key, record[Number(mapping[field.key])] || ''])
+  ));
+
+  const onSubmit = async (dryRun: boolean) => {
+    try {
+      setLoading(true);
+      const response = await axios.post(`/api/${params.storeId}/products/import`, {
+        rows: getRows(),
+        billboardId: billboardId || undefined,
+        dryRun
+      });
+
+      if (dryRun) {
+        setReport(response.data);
+        return;
+      }
+
+      toast.success(`${response.data.products} produk berhasil diimpor.`);
+      router.push(`/${params.storeId}/products`);
+      router.refresh();
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data?.rows) {
+        setReport(error.response.data);
+      }
+
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isMappingComplete = fields.every((field) => !field.required || mapping[field.key] !== NONE);
+
+  return (
+    <>
+      <Heading
+        title="Impor Produk"
+        description="Unggah file CSV (termasuk CSV dari Excel). Pisahkan beberapa URL gambar dengan tanda |."
+      />
+      <Separator />
+      <div className="grid grid-cols-3 gap-8">
+        <div className="space-y-2">
+          <Label htmlFor="file">File CSV</Label>
+          <Input
+            id="file"
+            type="file"
+            accept=".csv,text/csv"
+            disabled={loading}
+            onChange={(event) => onFileChange(event.target.files?.[0])}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Papan Iklan untuk Kategori Baru</Label>
+          <Select
+            disabled={loading}
+            value={billboardId}
+            onValueChange={(value) => {
+              setBillboardId(value);
+              setReport(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Pilih Papan Iklan" />
+            </SelectTrigger>
+            <SelectContent>
+              {billboards.map((billboard) => (
+                <SelectItem key={billboard.id} value={billboard.id}>
+                  {billboard.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {headers.length > 0 && (
+        <>
+          <Heading title="Kolom" description={`${records.length} baris ditemukan. Cocokkan kolom file dengan data produk.`} />
+          <div className="grid grid-cols-4 gap-4">
+            {fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label>{field.label}{field.required && ' *'}</Label>
+                <Select
+                  disabled={loading}
+                  value={mapping[field.key]}
+                  onValueChange={(value) => {
+                    setMapping({ ...mapping, [field.key]: value });
+                    setReport(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Tidak digunakan</SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Kolom ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-x-2">
+            <Button
+              disabled={loading || !isMappingComplete}
+              variant="outline"
+              onClick={() => onSubmit(true)}
+            >
+              Pratinjau
+            </Button>
+            <Button
+              disabled={loading || !report?.valid}
+              onClick={() => onSubmit(false)}
+            >
+              Impor
+            </Button>
+          </div>
+        </>
+      )}
+      {report && (
+        <>
+          <Separator />
+          <div className="space-y-1 text-sm">
+            <p>
+              {report.rows.filter((row) => row.errors.length === 0).length} dari {report.rows.length} baris valid.
+            </p>
+            {report.newCategories.length > 0 && (
+              <p>Kategori baru: {report.newCategories.join(', ')}</p>
+            )}
+            {report.newSizes.length > 0 && (
+              <p>Bentuk obat baru: {report.newSizes.join(', ')}</p>
+            )}
+            {report.newColors.length > 0 && (
+              <p>Tipe obat baru: {report.newColors.join(', ')}</p>
+            )}
+          </div>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Baris</TableHead>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>
+                      {row.errors.length === 0 ? (
+                        'OK'
+                      ) : (
+                        <span className="text-destructive">{row.errors.join('; ')}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,38 @@
+import prismadb from "@/lib/prismadb";
+import { MAX_IMPORT_ROWS, productImportFields } from "@/lib/product-import";
+import { ProductImport } from "./components/product-import";
+
+const ProductImportPage = async ({
+    params
+}: {
+    params: { storeId: string }
+}) => {
+    const billboards = await prismadb.billboard.findMany({
+        where: {
+            storeId: params.storeId,
+            deletedAt: null
+        }
+    });
+
+    return (
+        <div className="flex-col">
+            <div className="flex-1 space-y-4 p-8 pt-6">
+                <ProductImport
+                    billboards={billboards.map((billboard) => ({
+                        id: billboard.id,
+                        label: billboard.label
+                    }))}
+                    fields={productImportFields.map((field) => ({
+                        key: field.key,
+                        label: field.label,
+                        required: field.required,
+                        aliases: [...field.aliases]
+                    }))}
+                    maxRows={MAX_IMPORT_ROWS}
+                />
+            </div>
+        </div>
+    );
+}
+
+export default ProductImportPage;
\ No newline at end of file
@@ -3,26 +3,55 @@ import { format } from "date-fns";
 import prismadb from "@/lib/prismadb";
 import { ProductClient } from "./components/client";
 import { ProductColumn } from "./components/columns";
-import { formatter } from "@/lib/utils";
+import { getFormatter } from "@/lib/currency";
+import { TableSearchParams, getTablePagination } from "@/lib/data-table";
+import { getProductQuery } from "@/lib/product-query";
 
 
 const ProductsPage = async ({
-    params
+    params,
+    searchParams
 }: {
-    params: { storeId: string }
+    params: { storeId: string },
+    searchParams: TableSearchParams
 }) => {
-    const products = await prismadb.product.findMany({
+    const store = await prismadb.store.findUniqueOrThrow({
+        where: {
+            id: params.storeId
+        }
+    });
+
+    const formatter = getFormatter(store);
+
+    const categories = await prismadb.category.findMany({
         where: {
-            storeId: params.storeId
+            storeId: params.storeId,
+            deletedAt: null
         },
+        orderBy: {
+            name: 'asc'
+        }
+    });
+
+    const { tableParams, where, orderBy } = getProductQuery(params.storeId, searchParams);
+
+    const total = await prismadb.product.count({ where });
+
+    const products = await prismadb.product.findMany({
+        where,
         include: {
             category: true,
             size: true,
             color: true,
+            _count: {
+                select: {
+                    variants: true
+                }
+            }
         },
-        orderBy: {
-            createdAt: 'desc'
-        }
+        orderBy,
+        skip: tableParams.skip,
+        take: tableParams.take
     });
 
     const formattedProducts: ProductColumn[] = products.map((item) => ({
@@ -31,16 +60,51 @@ const ProductsPage = async ({
         isFeatured: item.isFeatured,
         isArchived: item.isArchived,
         price: formatter.format(item.price.toNumber()),
+        stock: item.stock,
         category: item.category.name,
         size: item.size.name,
         color: item.color.value,
+        variants: item._count.variants,
         createdAt: format(item.createdAt, "MMMM do, yyyy")
     }));
     
     return (
         <div className="flex-col">
             <div className="flex-1 space-y-4 p-8 pt-6">
-                <ProductClient data={formattedProducts}/>
+                <ProductClient
+                    data={formattedProducts}
+                    pagination={getTablePagination(tableParams, total)}
+                    categories={categories.map((category) => ({
+                        id: category.id,
+                        name: category.name
+                    }))}
+                    filters={[
+                        {
+                            key: "archived",
+                            label: "Status Arsip",
+                            options: [
+                                { label: "Diarsipkan", value: "true" },
+                                { label: "Aktif", value: "false" }
+                            ]
+                        },
+                        {
+                            key: "featured",
+                            label: "Status Dijual",
+                            options: [
+                                { label: "Dijual", value: "true" },
+                                { label: "Tidak Dijual", value: "false" }
+                            ]
+                        },
+                        {
+                            key: "categoryId",
+                            label: "Kategori",
+                            options: categories.map((category) => ({
+                                label: category.name,
+                                value: category.id
+                            }))
+                        }
+                    ]}
+                />
             </div>
         </div>
     )
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Modal } from '@/components/ui/modal';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { StoreDependencies, StoreDeletionMode } from '@/lib/store-deletion';
+
+const dependencyLabels: Record<keyof Omit<StoreDependencies, 'unpaidOrders'>, string> = {
+  billboards: 'Papan Iklan',
+  categories: 'Kategori',
+  sizes: 'Bentuk Obat',
+  colors: 'Tipe Obat',
+  products: 'Produk',
+  orders: 'Pesanan',
+};
+
+interface DeleteStoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (mode: StoreDeletionMode, confirmName: string) => void;
+  loading: boolean;
+  storeName: string;
+  dependencies: StoreDependencies;
+}
+
+export const DeleteStoreModal: React.FC<DeleteStoreModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  loading,
+  storeName,
+  dependencies
+}) => {
+  const [isMounted, setIsMounted] = useState(false);
+  const [mode, setMode] = useState<StoreDeletionMode>('archive');
+  const [confirmName, setConfirmName] = useState('');
+
+  useEffect(() => {
+    setIsMounted(true);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode('archive');
+      setConfirmName('');
+    }
+  }, [isOpen]);
+
+  if (!isMounted) {
+    return null;
+  }
+
+  const hasUnpaidOrders = dependencies.unpaidOrders > 0;
+
+  return (
+    <Modal
+      title="Hapus Toko"
+      description="Tindakan ini tidak dapat dibatalkan. Data berikut akan ikut terdampak."
+      isOpen={isOpen}
+      onClose={onClose}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {(Object.keys(dependencyLabels) as (keyof typeof dependencyLabels)[]).map((key) => (
+            <div key={key} className="flex items-center justify-between rounded-md border px-3 py-2">
+              <span className="text-muted-foreground">{dependencyLabels[key]}</span>
+              <span className="font-medium">{dependencies[key]}</span>
+            </div>
+          ))}
+        </div>
+        {hasUnpaidOrders && (
+          <p className="text-sm font-medium text-destructive">
+            Masih ada {dependencies.unpaidOrders} pesanan yang belum dibayar. Tunggu hingga pesanan tersebut selesai atau kedaluwarsa.
+          </p>
+        )}
+        <div className="space-y-2">
+          <Label>Tindakan</Label>
+          <Select
+            disabled={loading}
+            value={mode}
+            onValueChange={(value) => setMode(value as StoreDeletionMode)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="archive">Arsipkan toko (pesanan tetap disimpan)</SelectItem>
+              <SelectItem value="cascade">Hapus toko beserta semua datanya</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirmName">
+            Ketik <span className="font-semibold">{storeName}</span> untuk konfirmasi
+          </Label>
+          <Input
+            id="confirmName"
+            disabled={loading}
+            value={confirmName}
+            onChange={(event) => setConfirmName(event.target.value)}
+          />
+        </div>
+      </div>
+      <div className="pt-6 space-x-2 flex items-center justify-end w-full">
+        <Button disabled={loading} variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          disabled={loading || hasUnpaidOrders || confirmName !== storeName}
+          variant="destructive"
+          onClick={() => onConfirm(mode, confirmName)}
+        >
+          {mode === 'archive' ? 'Arsipkan' : 'Hapus'}
+        </Button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,211 @@
+'use client';
+
+import axios from 'axios';
+import { StoreRole } from '@prisma/client';
+import { Trash } from 'lucide-react';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { toast } from 'react-hot-toast';
+import { useParams, useRouter } from 'next/navigation';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Heading } from '@/components/ui/heading';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertModal } from '@/components/modals/alert-modals';
+import { storeRoleLabels } from '@/lib/store-roles';
+
+const roles = Object.keys(storeRoleLabels) as StoreRole[];
+
+const formSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(['OWNER', 'MANAGER', 'PHARMACIST', 'VIEWER']),
+});
+
+type InviteFormValues = z.infer<typeof formSchema>;
+
+interface MembersSectionProps {
+  currentMemberId: string;
+  data: {
+    id: string;
+    email: string;
+    role: StoreRole;
+    isPending: boolean;
+  }[];
+}
+
+export const MembersSection: React.FC<MembersSectionProps> = ({
+  currentMemberId,
+  data
+}) => {
+  const params = useParams();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(false);
+  const [removeId, setRemoveId] = useState<string | null>(null);
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: '',
+      role: 'PHARMACIST',
+    },
+  });
+
+  const onInvite = async (values: InviteFormValues) => {
+    try {
+      setLoading(true);
+      await axios.post(`/api/stores/${params.storeId}/members`, values);
+      form.reset();
+      router.refresh();
+      toast.success('Undangan dibuat.');
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onChangeRole = async (memberId: string, role: string) => {
+    try {
+      setLoading(true);
+      await axios.patch(`/api/stores/${params.storeId}/members/${memberId}`, { role });
+      router.refresh();
+      toast.success('Peran anggota diperbarui.');
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRemove = async () => {
+    try {
+      setLoading(true);
+      await axios.delete(`/api/stores/${params.storeId}/members/${removeId}`);
+      router.refresh();
+      toast.success('Anggota dihapus.');
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+      setRemoveId(null);
+    }
+  };
+
+  return (
+    <>
+      <AlertModal
+        isOpen={!!removeId}
+        onClose={() => setRemoveId(null)}
+        onConfirm={onRemove}
+        loading={loading}
+      />
+      <Separator />
+      <Heading title="Anggota" description="Kelola siapa saja yang dapat mengakses toko ini" />
+      <div className="space-y-2">
+        {data.map((member) => (
+          <div key={member.id} className="flex items-center justify-between gap-x-4 rounded-md border p-4">
+            <div className="flex items-center gap-x-2 text-sm">
+              {member.email || '-'}
+              {member.isPending && <Badge variant="outline">Menunggu</Badge>}
+            </div>
+            <div className="flex items-center gap-x-2">
+              <Select
+                disabled={loading}
+                value={member.role}
+                onValueChange={(role) => onChangeRole(member.id, role)}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {storeRoleLabels[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                disabled={loading || member.id === currentMemberId}
+                variant="destructive"
+                size="icon"
+                onClick={() => setRemoveId(member.id)}
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(onInvite)}
+          className="flex items-end gap-x-4"
+        >
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input
+                    disabled={loading}
+                    placeholder="apoteker@contoh.com"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="role"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Peran</FormLabel>
+                <Select
+                  disabled={loading}
+                  onValueChange={field.onChange}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {storeRoleLabels[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button disabled={loading} type="submit">
+            Undang
+          </Button>
+        </form>
+      </Form>
+    </>
+  );
+};
@@ -21,21 +21,30 @@ import { useForm } from 'react-hook-form';
 import * as z from 'zod';
 import { toast } from 'react-hot-toast';
 import { useParams, useRouter } from 'next/navigation';
-import { AlertModal } from '@/components/modals/alert-modals';
 import { ApiAlert } from '@/components/ui/api-alert';
 import { useOrigin } from '@/hooks/use-origin';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { currencies, locales } from '@/lib/currency';
+import { StoreDependencies, StoreDeletionMode } from '@/lib/store-deletion';
+
+import { DeleteStoreModal } from './delete-store-modal';
 
 interface SettingsFormProps {
   initialData: Store;
+  dependencies: StoreDependencies;
+  // Deleting a store is reserved to its owner; managers may only edit it.
+  canDelete: boolean;
 }
 
 const formSchema = z.object({
   name: z.string().min(1),
+  currency: z.string().min(1),
+  locale: z.string().min(1),
 });
 
 type SettingsFormValues = z.infer<typeof formSchema>;
 
-export const SettingsForm: React.FC<SettingsFormProps> = ({ initialData }) => {
+export const SettingsForm: React.FC<SettingsFormProps> = ({ initialData, dependencies, canDelete }) => {
   const params = useParams();
   const router = useRouter();
   const origin = useOrigin();
@@ -61,15 +70,15 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ initialData }) => {
     }
   };
 
-  const onDelete = async () => {
+  const onDelete = async (mode: StoreDeletionMode, confirmName: string) => {
     try {
         setLoading(true)
-        await axios.delete(`/api/stores/${params.storeId}`)
+        await axios.delete(`/api/stores/${params.storeId}`, { data: { mode, confirmName } })
         router.refresh();
         router.push("/")
-        toast.success("Toko Dihapus.");
+        toast.success(mode === "archive" ? "Toko Diarsipkan." : "Toko Dihapus.");
     } catch (error) {
-        toast.error("Pastikan anda menghapus semua kategori dan produk terlebih dahulu.")
+        toast.error("Pastikan tidak ada pesanan yang belum dibayar dan nama toko sudah benar.")
     } finally {
         setLoading(false)
         setOpen(false)
@@ -78,22 +87,26 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ initialData }) => {
 
   return (
     <>
-        <AlertModal
+        <DeleteStoreModal
             isOpen={open}
             onClose={() => setOpen(false)}
             onConfirm={onDelete}
             loading={loading}
+            storeName={initialData.name}
+            dependencies={dependencies}
         />
       <div className="flex items-center justify-between">
         <Heading title="Setting" description="Kelola Toko Anda Disini" />
-        <Button
-          disabled={loading}
-          variant="destructive"
-          size="icon"
-          onClick={() => setOpen(true)}
-        >
-          <Trash className="h-4 w-4" />
-        </Button>
+        {canDelete && (
+          <Button
+            disabled={loading}
+            variant="destructive"
+            size="icon"
+            onClick={() => setOpen(true)}
+          >
+            <Trash className="h-4 w-4" />
+          </Button>
+        )}
       </div>
       <Separator />
       <Form {...form}>
@@ -119,6 +132,76 @@ export const SettingsForm: React.FC<SettingsFormProps> = ({ initialData }) => {
                 </FormItem>
               )}
             />
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mata Uang</FormLabel>
+                    <Select
+                      disabled={loading}
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue
+                            defaultValue={field.value}
+                            placeholder="Pilih Mata Uang"
+                          />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {currencies.map((item) => (
+                          <SelectItem
+                            key={item.value}
+                            value={item.value}
+                          >
+                            {item.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="locale"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Format Angka</FormLabel>
+                    <Select
+                      disabled={loading}
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue
+                            defaultValue={field.value}
+                            placeholder="Pilih Format Angka"
+                          />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {locales.map((item) => (
+                          <SelectItem
+                            key={item.value}
+                            value={item.value}
+                          >
+                            {item.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
           <Button disabled={loading} className="ml-auto" type="submit">
             Simpan Perubahan
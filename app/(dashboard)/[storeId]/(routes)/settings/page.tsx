@@ -2,6 +2,10 @@ import prismadb from '@/lib/prismadb';
 import { auth } from '@clerk/nextjs';
 import { redirect } from 'next/navigation';
 import { SettingsForm } from './components/settings-form';
+import { MembersSection } from './components/members-section';
+import { getStoreMember } from '@/lib/store-access';
+import { roleHasPermission } from '@/lib/store-roles';
+import { getStoreDependencies } from '@/lib/store-deletion';
 
 interface SettingsPageProps {
   params: {
@@ -16,10 +20,15 @@ const SettingsPage: React.FC<SettingsPageProps> = async ({ params }) => {
     redirect('/sign-in');
   }
 
-  const store = await prismadb.store.findFirst({
+  const member = await getStoreMember(params.storeId, userId);
+
+  if (!member || !roleHasPermission(member.role, 'store:update')) {
+    redirect(`/${params.storeId}`);
+  }
+
+  const store = await prismadb.store.findUnique({
     where: {
       id: params.storeId,
-      userId,
     },
   });
 
@@ -27,10 +36,36 @@ const SettingsPage: React.FC<SettingsPageProps> = async ({ params }) => {
     redirect('/');
   }
 
+  const dependencies = await getStoreDependencies(params.storeId);
+
+  const members = await prismadb.storeMember.findMany({
+    where: {
+      storeId: params.storeId,
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+
   return (
     <div className="flex-col">
       <div className="flex-1 space-y-4 p-8 pt-6">
-        <SettingsForm initialData={store}/>
+        <SettingsForm
+          initialData={store}
+          dependencies={dependencies}
+          canDelete={roleHasPermission(member.role, 'store:delete')}
+        />
+        {roleHasPermission(member.role, 'members:manage') && (
+          <MembersSection
+            currentMemberId={member.id}
+            data={members.map((item) => ({
+              id: item.id,
+              email: item.email,
+              role: item.role,
+              isPending: !item.userId,
+            }))}
+          />
+        )}
       </div>
     </div>
   );
@@ -3,12 +3,13 @@
 import { Button } from '@/components/ui/button';
 import { Heading } from '@/components/ui/heading';
 import { Separator } from '@/components/ui/separator';
-import { Plus } from 'lucide-react';
+import { Plus, Trash } from 'lucide-react';
 import { useParams, useRouter } from 'next/navigation';
 
 import { SizeColumn, columns } from './columns';
 import { DataTable } from '@/components/ui/data-table';
 import { ApiList } from '@/components/ui/api-list';
+import { BulkDeleteAction } from '@/components/bulk-actions';
 
 interface SizesClientProps {
   data: SizeColumn[];
@@ -25,15 +26,31 @@ export const SizesClient: React.FC<SizesClientProps> = ({ data }) => {
           title={`Bentuk (${data.length})`}
           description="Kelola Bentuk Produk Anda Disini"
         />
-        <Button
-          onClick={() => router.push(`/${params.storeId}/sizes/new`)}
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          Buat Baru
-        </Button>
+        <div className="flex items-center gap-x-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/${params.storeId}/trash?entity=sizes`)}
+          >
+            <Trash className="mr-2 h-4 w-4" />
+            Sampah
+          </Button>
+          <Button
+            onClick={() => router.push(`/${params.storeId}/sizes/new`)}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Buat Baru
+          </Button>
+        </div>
       </div>
       <Separator />
-      <DataTable searchKey="name" columns={columns} data={data} />
+      <DataTable
+        searchKey="name"
+        columns={columns}
+        data={data}
+        renderBulkActions={(ids, clearSelection) => (
+          <BulkDeleteAction entity="sizes" ids={ids} onDone={clearSelection} />
+        )}
+      />
       {/* <Heading title="API" description="Api calls for Sizes" />
       <Separator />
       <ApiList entityName="sizes" entityIdName="sizeId" /> */}
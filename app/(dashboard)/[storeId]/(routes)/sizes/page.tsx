@@ -12,7 +12,8 @@ const SizesPage = async ({
 }) => {
     const sizes = await prismadb.size.findMany({
         where: {
-            storeId: params.storeId
+            storeId: params.storeId,
+            deletedAt: null
         },
         orderBy: {
             createdAt: 'desc'
@@ -0,0 +1,98 @@
+'use client';
+
+import { toast } from 'react-hot-toast';
+import axios from 'axios';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TrashColumn } from './columns';
+import { Button } from '@/components/ui/button';
+import { Copy, MoreHorizontal, RotateCcw, Trash } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { AlertModal } from '@/components/modals/alert-modals';
+
+interface CellActionProps {
+  data: TrashColumn;
+}
+
+export const CellAction: React.FC<CellActionProps> = ({ data
+}) => {
+  const router = useRouter();
+  const params = useParams();
+
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+
+    const onCopy = (id: string) => {
+        navigator.clipboard.writeText(id);
+        toast.success("Id copied to the clipboard.")
+    };
+
+    const onRestore = async () => {
+      try {
+        setLoading(true);
+        await axios.post(`/api/${params.storeId}/trash/${data.entity}/${data.id}/restore`);
+        router.refresh();
+        toast.success('Data dipulihkan.');
+      } catch (error) {
+        toast.error('Pulihkan terlebih dahulu data yang digunakan oleh data ini');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const onPurge = async () => {
+      try {
+        setLoading(true);
+        await axios.delete(`/api/${params.storeId}/trash/${data.entity}/${data.id}`);
+        router.refresh();
+        toast.success('Data dihapus permanen.');
+      } catch (error) {
+        toast.error('Data masih digunakan dan tidak dapat dihapus permanen');
+      } finally {
+        setLoading(false);
+        setOpen(false);
+      }
+    };
+
+  return (
+    <>
+      <AlertModal
+        isOpen={open}
+        onClose={() => setOpen(false)}
+        onConfirm={onPurge}
+        loading={loading}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-8 w-8 p-0">
+            <span className="sr-only">Open Menu</span>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+              Actions
+          </DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => onCopy(data.id)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy Id
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={loading} onClick={onRestore}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Pulihkan
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setOpen(true)}>
+            <Trash className="mr-2 h-4 w-4" />
+            Hapus Permanen
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
@@ -0,0 +1,57 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+
+import { Heading } from '@/components/ui/heading';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { TrashColumn, columns } from './columns';
+import { DataTable } from '@/components/ui/data-table';
+
+interface TrashClientProps {
+  data: TrashColumn[];
+  entity: string;
+  entities: { value: string, label: string }[];
+  retentionDays: number;
+}
+
+export const TrashClient: React.FC<TrashClientProps> = ({
+  data,
+  entity,
+  entities,
+  retentionDays
+}) => {
+  const router = useRouter();
+  const params = useParams();
+
+  const entityLabel = entities.find((item) => item.value === entity)?.label;
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <Heading
+          title={`Sampah ${entityLabel} (${data.length})`}
+          description={`Data yang dihapus dapat dipulihkan selama ${retentionDays} hari`}
+        />
+        <Select
+          value={entity}
+          onValueChange={(value) => router.push(`/${params.storeId}/trash?entity=${value}`)}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {entities.map((item) => (
+              <SelectItem key={item.value} value={item.value}>
+                {item.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Separator />
+      <DataTable searchKey="name" columns={columns} data={data} />
+    </>
+  );
+};
@@ -0,0 +1,32 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+
+import { CellAction } from "./cell-action"
+
+export type TrashColumn = {
+  id: string
+  entity: string
+  name: string
+  deletedAt: string
+  purgeAt: string
+}
+
+export const columns: ColumnDef<TrashColumn>[] = [
+  {
+    accessorKey: "name",
+    header: "Nama",
+  },
+  {
+    accessorKey: "deletedAt",
+    header: "Dihapus",
+  },
+  {
+    accessorKey: "purgeAt",
+    header: "Dihapus Permanen",
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <CellAction data={row.original} />
+  },
+]
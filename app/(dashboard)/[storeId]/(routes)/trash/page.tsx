@@ -0,0 +1,51 @@
+import { addDays, format } from "date-fns";
+
+import {
+    getTrashRetentionDays,
+    getTrashedItems,
+    isTrashEntity,
+    trashEntities,
+    trashEntityLabels
+} from "@/lib/trash";
+import { TrashClient } from "./components/client";
+import { TrashColumn } from "./components/columns";
+
+
+const TrashPage = async ({
+    params,
+    searchParams
+}: {
+    params: { storeId: string },
+    searchParams: { entity?: string }
+}) => {
+    const entity = isTrashEntity(searchParams.entity) ? searchParams.entity : "products";
+    const retentionDays = getTrashRetentionDays();
+
+    const items = await getTrashedItems(params.storeId, entity);
+
+    const formattedItems: TrashColumn[] = items.map((item) => ({
+        id: item.id,
+        entity,
+        name: item.name,
+        deletedAt: format(item.deletedAt, "MMMM do, yyyy HH:mm"),
+        purgeAt: format(addDays(item.deletedAt, retentionDays), "MMMM do, yyyy")
+    }));
+
+    return (
+        <div className="flex-col">
+            <div className="flex-1 space-y-4 p-8 pt-6">
+                <TrashClient
+                    data={formattedItems}
+                    entity={entity}
+                    entities={trashEntities.map((trashEntity) => ({
+                        value: trashEntity,
+                        label: trashEntityLabels[trashEntity]
+                    }))}
+                    retentionDays={retentionDays}
+                />
+            </div>
+        </div>
+    )
+}
+
+export default TrashPage;
\ No newline at end of file
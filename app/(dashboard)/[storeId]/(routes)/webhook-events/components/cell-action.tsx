@@ -0,0 +1,73 @@
+'use client';
+
+import { toast } from 'react-hot-toast';
+import axios from 'axios';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { WebhookEventColumn } from './columns';
+import { Button } from '@/components/ui/button';
+import { Copy, MoreHorizontal, RotateCcw } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+interface CellActionProps {
+  data: WebhookEventColumn;
+}
+
+export const CellAction: React.FC<CellActionProps> = ({ data
+}) => {
+  const router = useRouter();
+  const params = useParams();
+
+  const [loading, setLoading] = useState(false);
+
+    const onCopy = (id: string) => {
+        navigator.clipboard.writeText(id);
+        toast.success("Event Id copied to the clipboard.")
+    };
+
+    const onReplay = async () => {
+      try {
+        setLoading(true);
+        await axios.post(`/api/${params.storeId}/webhook-events/${data.id}/replay`);
+        router.refresh();
+        toast.success('Event diproses ulang.');
+      } catch (error) {
+        router.refresh();
+        toast.error('Event gagal diproses ulang.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="h-8 w-8 p-0">
+          <span className="sr-only">Open Menu</span>
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+            Actions
+        </DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => onCopy(data.id)}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy Id
+        </DropdownMenuItem>
+        {data.canReplay && (
+          <DropdownMenuItem disabled={loading} onClick={onReplay}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Proses Ulang
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,26 @@
+'use client';
+
+import { Heading } from '@/components/ui/heading';
+import { Separator } from '@/components/ui/separator';
+
+import { WebhookEventColumn, columns } from './columns';
+import { DataTable } from '@/components/ui/data-table';
+
+interface WebhookEventClientProps {
+  data: WebhookEventColumn[];
+}
+
+export const WebhookEventClient: React.FC<WebhookEventClientProps> = ({
+data
+}) => {
+  return (
+    <>
+        <Heading
+          title={`Webhook (${data.length})`}
+          description="Event pembayaran yang diterima dari Stripe"
+        />
+      <Separator />
+      <DataTable searchKey="type" columns={columns} data={data} />
+    </>
+  );
+};
@@ -0,0 +1,41 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { CellAction } from "./cell-action"
+
+export type WebhookEventColumn = {
+  id: string
+  type: string
+  status: string
+  error: string
+  attempts: number
+  canReplay: boolean
+  createdAt: string
+}
+
+export const columns: ColumnDef<WebhookEventColumn>[] = [
+  {
+    accessorKey: "type",
+    header: "Event",
+  },
+  {
+    accessorKey: "status",
+    header: "Status",
+  },
+  {
+    accessorKey: "attempts",
+    header: "Percobaan",
+  },
+  {
+    accessorKey: "error",
+    header: "Error",
+  },
+  {
+    accessorKey: "createdAt",
+    header: "Tanggal",
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => <CellAction data={row.original}/>
+  }
+]
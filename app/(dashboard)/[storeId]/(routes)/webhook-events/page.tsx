@@ -0,0 +1,42 @@
+import { format } from "date-fns";
+
+import prismadb from "@/lib/prismadb";
+import { isReplayableWebhookEvent } from "@/lib/webhook-events";
+import { WebhookEventClient } from "./components/client";
+import { WebhookEventColumn } from "./components/columns";
+
+
+const WebhookEventsPage = async ({
+    params
+}: {
+    params: { storeId: string }
+}) => {
+    const webhookEvents = await prismadb.webhookEvent.findMany({
+        where: {
+            storeId: params.storeId
+        },
+        orderBy: {
+            createdAt: 'desc'
+        }
+    });
+
+    const formattedWebhookEvents: WebhookEventColumn[] = webhookEvents.map((item) => ({
+        id: item.id,
+        type: item.type,
+        status: item.status,
+        error: item.error || '',
+        attempts: item.attempts,
+        canReplay: isReplayableWebhookEvent(item),
+        createdAt: format(item.createdAt, "MMMM do, yyyy HH:mm")
+    }));
+
+    return (
+        <div className="flex-col">
+            <div className="flex-1 space-y-4 p-8 pt-6">
+                <WebhookEventClient data={formattedWebhookEvents}/>
+            </div>
+        </div>
+    )
+}
+
+export default WebhookEventsPage;
\ No newline at end of file
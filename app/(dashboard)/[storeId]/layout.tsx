@@ -1,5 +1,5 @@
 import Navbar from "@/components/navbar";
-import prismadb from "@/lib/prismadb";
+import { acceptPendingInvitations, getStoreMember } from "@/lib/store-access";
 import { auth } from "@clerk/nextjs";
 import { redirect } from "next/navigation";
 
@@ -16,14 +16,13 @@ export default async function DashboardLayout({
         redirect('/sign-in');
     }
 
-    const store = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
-    });
+    let member = await getStoreMember(params.storeId, userId);
 
-    if (!store) {
+    if (!member && await acceptPendingInvitations(userId)) {
+        member = await getStoreMember(params.storeId, userId);
+    }
+
+    if (!member) {
         redirect('/');
     }
 
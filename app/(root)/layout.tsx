@@ -1,4 +1,5 @@
 import prismadb from '@/lib/prismadb';
+import { acceptPendingInvitations } from '@/lib/store-access';
 import { auth } from '@clerk/nextjs';
 import { redirect } from 'next/navigation';
 
@@ -13,9 +14,16 @@ export default async function SetupLayout({
     redirect('/sign-in');
   }
 
+  await acceptPendingInvitations(userId);
+
   const store = await prismadb.store.findFirst({
     where: {
-      userId,
+      archivedAt: null,
+      members: {
+        some: {
+          userId,
+        },
+      },
     },
   });
 
@@ -1,6 +1,9 @@
 import prismadb from '@/lib/prismadb';
 import { auth } from '@clerk/nextjs';
 import { NextResponse } from 'next/server';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { countDependents } from '@/lib/trash';
 
 export async function GET(
     req: Request,
@@ -11,9 +14,10 @@ export async function GET(
         return new NextResponse('Papan Iklan id is required', { status: 400 });
       }
   
-      const billboard = await prismadb.billboard.findUnique({
+      const billboard = await prismadb.billboard.findFirst({
         where: {
           id: params.billboardId,
+          deletedAt: null,
         }
       });
       
@@ -50,15 +54,22 @@ export async function PATCH(
       return new NextResponse("Papan Iklan id is required", { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingBillboard = await prismadb.billboard.findFirst({
+      where: {
+        id: params.billboardId,
+        storeId: params.storeId,
+        deletedAt: null,
+      }
     });
 
-    if (!storeByUserId) {
-        return new NextResponse("Unauthorized", { status: 403 } )
+    if (!existingBillboard) {
+      return new NextResponse('Billboard not found', { status: 404 });
     }
 
     const billboard = await prismadb.billboard.updateMany({
@@ -71,6 +82,16 @@ export async function PATCH(
       },
     });
 
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'BILLBOARD',
+      entityId: params.billboardId,
+      action: 'UPDATE',
+      before: existingBillboard,
+      after: { label, imageUrl },
+    });
+
     return NextResponse.json(billboard);
   } catch (error) {
     console.log('[BILLBOARD_PATCH]', error);
@@ -93,22 +114,47 @@ export async function DELETE(
       return new NextResponse('Billboard id is required', { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
-    });
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
 
-    if (!storeByUserId) {
+    if (!hasAccess) {
         return new NextResponse("Unauthorized", { status: 403 });
     }
 
-    const billboard = await prismadb.billboard.deleteMany({
+    const existingBillboard = await prismadb.billboard.findFirst({
       where: {
         id: params.billboardId,
+        storeId: params.storeId,
+        deletedAt: null,
       }
     });
+
+    if (!existingBillboard) {
+      return new NextResponse('Billboard not found', { status: 404 });
+    }
+
+    const dependents = await countDependents('billboards', params.billboardId);
+
+    if (dependents > 0) {
+      return new NextResponse('Billboard is used by categories', { status: 409 });
+    }
+
+    const billboard = await prismadb.billboard.updateMany({
+      where: {
+        id: params.billboardId,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'BILLBOARD',
+      entityId: params.billboardId,
+      action: 'DELETE',
+      before: existingBillboard,
+    });
     
     return NextResponse.json(billboard);
   } catch (error) {
@@ -1,6 +1,9 @@
 import prismadb from '@/lib/prismadb';
 import { auth } from '@clerk/nextjs';
 import { NextResponse } from 'next/server';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { countDependents } from '@/lib/trash';
 
 export async function GET(
     req: Request,
@@ -11,9 +14,10 @@ export async function GET(
         return new NextResponse('Category id is required', { status: 400 });
       }
   
-      const category = await prismadb.category.findUnique({
+      const category = await prismadb.category.findFirst({
         where: {
           id: params.categoryId,
+          deletedAt: null,
         },
         include: {
           billboard: true,
@@ -53,15 +57,22 @@ export async function PATCH(
       return new NextResponse("Category id is required", { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingCategory = await prismadb.category.findFirst({
+      where: {
+        id: params.categoryId,
+        storeId: params.storeId,
+        deletedAt: null,
+      }
     });
 
-    if (!storeByUserId) {
-        return new NextResponse("Unauthorized", { status: 403 } )
+    if (!existingCategory) {
+      return new NextResponse('Category not found', { status: 404 });
     }
 
     const category = await prismadb.category.updateMany({
@@ -74,6 +85,16 @@ export async function PATCH(
       },
     });
 
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'CATEGORY',
+      entityId: params.categoryId,
+      action: 'UPDATE',
+      before: existingCategory,
+      after: { name, billboardId },
+    });
+
     return NextResponse.json(category);
   } catch (error) {
     console.log('[CATEGORY_PATCH]', error);
@@ -96,22 +117,47 @@ export async function DELETE(
       return new NextResponse('Category id is required', { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
-    });
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
 
-    if (!storeByUserId) {
+    if (!hasAccess) {
         return new NextResponse("Unauthorized", { status: 403 });
     }
 
-    const category = await prismadb.category.deleteMany({
+    const existingCategory = await prismadb.category.findFirst({
       where: {
         id: params.categoryId,
+        storeId: params.storeId,
+        deletedAt: null,
       }
     });
+
+    if (!existingCategory) {
+      return new NextResponse('Category not found', { status: 404 });
+    }
+
+    const dependents = await countDependents('categories', params.categoryId);
+
+    if (dependents > 0) {
+      return new NextResponse('Category is used by products', { status: 409 });
+    }
+
+    const category = await prismadb.category.updateMany({
+      where: {
+        id: params.categoryId,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'CATEGORY',
+      entityId: params.categoryId,
+      action: 'DELETE',
+      before: existingCategory,
+    });
     
     return NextResponse.json(category);
   } catch (error) {
@@ -3,6 +3,11 @@ import { NextResponse } from "next/server";
 
 import { stripe } from "@/lib/stripe";
 import prismadb from "@/lib/prismadb";
+import { lockStore } from "@/lib/store-lock";
+import { toMinorUnits } from "@/lib/currency";
+import { isHttpUrl } from "@/lib/utils";
+import { getSellableStock } from "@/lib/stock-batches";
+import { getVariantLabel } from "@/lib/product-variants";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -10,6 +15,21 @@ const corsHeaders = {
     "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
+interface CheckoutItem {
+    productId: string;
+    variantId?: string | null;
+    quantity: number;
+}
+
+const isCheckoutItem = (value: unknown): value is CheckoutItem => {
+    const item = value as Partial<CheckoutItem> | null;
+
+    return typeof item === "object" && item !== null &&
+        typeof item.productId === "string" && item.productId !== "" &&
+        (item.variantId === undefined || item.variantId === null || typeof item.variantId === "string") &&
+        Number.isInteger(item.quantity) && item.quantity! > 0;
+};
+
 export async function OPTIONS() {
     return NextResponse.json({}, { headers: corsHeaders });
 };
@@ -18,51 +38,199 @@ export async function POST(
     req: Request,
     { params }: { params: { storeId: string }}
 ) {
-    const { productIds } = await req.json();
+    const { items, prescriptionUrl } = await req.json();
+
+    if (!Array.isArray(items) || items.length === 0) {
+        return NextResponse.json({
+            error: "Items are required",
+            invalidItems: []
+        }, {
+            status: 400,
+            headers: corsHeaders
+        });
+    }
+
+    // Entries are checked before anything reads them, so malformed input is reported the same
+    // way as products that cannot be bought instead of failing further down.
+    const malformedItems = items.filter((item) => !isCheckoutItem(item));
+
+    if (malformedItems.length > 0) {
+        return NextResponse.json({
+            error: "Items need a product id and a positive whole quantity",
+            invalidItems: malformedItems.map((item) => ({
+                productId: typeof item?.productId === "string" ? item.productId : null,
+                variantId: typeof item?.variantId === "string" ? item.variantId : null,
+                reason: "INVALID"
+            }))
+        }, {
+            status: 400,
+            headers: corsHeaders
+        });
+    }
+
+    const store = await prismadb.store.findUnique({
+        where: {
+            id: params.storeId
+        }
+    });
 
-    if (!productIds || productIds.length === 0) {
-        return new NextResponse("Product ids are required", { status: 400 });
+    if (!store || store.archivedAt) {
+        return new NextResponse("Store not found", { status: 404 });
     }
 
+    // Lines for the same product and variant are merged.
+    const lines: { productId: string, variantId: string | null, quantity: number }[] = [];
+
+    for (const item of items as CheckoutItem[]) {
+        const variantId = item.variantId || null;
+        const line = lines.find((line) => line.productId === item.productId && line.variantId === variantId);
+
+        if (line) {
+            line.quantity += item.quantity;
+        } else {
+            lines.push({ productId: item.productId, variantId, quantity: item.quantity });
+        }
+    }
+
+    const productIds = Array.from(new Set(lines.map((line) => line.productId)));
+
     const products = await prismadb.product.findMany({
         where: {
             id: {
                 in: productIds
+            },
+            storeId: params.storeId,
+            deletedAt: null
+        },
+        include: {
+            batches: true,
+            variants: {
+                include: {
+                    size: true,
+                    color: true,
+                    batches: true
+                }
             }
         }
     });
 
+    const hasPrescription = typeof prescriptionUrl === "string" && isHttpUrl(prescriptionUrl);
+
+    // Products from another store are reported as not found rather than revealing they exist.
+    const invalidItems: {
+        productId: string,
+        variantId: string | null,
+        reason: "NOT_FOUND" | "ARCHIVED" | "VARIANT_REQUIRED" | "OUT_OF_STOCK" | "PRESCRIPTION_REQUIRED"
+    }[] = [];
+
+    const purchases = lines.map((line) => {
+        const product = products.find((product) => product.id === line.productId);
+        const variant = product?.variants.find((variant) => variant.id === line.variantId);
+
+        return { ...line, product, variant };
+    });
+
+    for (const { productId, variantId, quantity, product, variant } of purchases) {
+        if (!product || (variantId && !variant)) {
+            invalidItems.push({ productId, variantId, reason: "NOT_FOUND" });
+        } else if (product.isArchived) {
+            invalidItems.push({ productId, variantId, reason: "ARCHIVED" });
+        } else if (product.variants.length > 0 && !variant) {
+            invalidItems.push({ productId, variantId, reason: "VARIANT_REQUIRED" });
+        } else if (getSellableStock(variant || product) < quantity) {
+            invalidItems.push({ productId, variantId, reason: "OUT_OF_STOCK" });
+        } else if (product.requiresPrescription && !hasPrescription) {
+            invalidItems.push({ productId, variantId, reason: "PRESCRIPTION_REQUIRED" });
+        }
+    }
+
+    if (invalidItems.length > 0) {
+        return NextResponse.json({
+            error: "Some products cannot be purchased",
+            invalidItems
+        }, {
+            status: 400,
+            headers: corsHeaders
+        });
+    }
+
+    const requiresPrescription = products.some((product) => product.requiresPrescription);
+
+    const orderLines = purchases.map(({ quantity, product, variant }) => ({
+        quantity,
+        product: product!,
+        variant,
+        name: variant ? `${product!.name} (${getVariantLabel(variant)})` : product!.name,
+        price: variant ? variant.price : product!.price,
+    }));
+
     const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
 
-    products.forEach((product) => {
+    orderLines.forEach((line) => {
         line_items.push({
-            quantity: 1,
+            quantity: line.quantity,
             price_data: {
-                currency: 'IDR',
+                currency: store.currency,
                 product_data: {
-                    name: product.name,
+                    name: line.name,
                 },
-                unit_amount: product.price.toNumber() * 100
+                unit_amount: toMinorUnits(line.price.toNumber(), store.currency)
             }
         });
     });
 
-    const order = await prismadb.order.create({
-        data: {
-            storeId: params.storeId,
-            isPaid: false,
-            orderItems: {
-                create: productIds.map((productId: string) => ({
-                    product: {
-                        connect: {
-                            id: productId
-                        }
-                    }
-                }))
+    // The order is created under the store lock, so it either lands before a store deletion
+    // re-checks for unpaid orders or sees the store already closed.
+    const order = await prismadb.$transaction(async (tx) => {
+        await lockStore(tx, params.storeId);
+
+        const lockedStore = await tx.store.findUnique({
+            where: {
+                id: params.storeId
             }
+        });
+
+        if (!lockedStore || lockedStore.archivedAt) {
+            return null;
         }
+
+        return tx.order.create({
+            data: {
+                storeId: params.storeId,
+                isPaid: false,
+                currency: store.currency,
+                orderItems: {
+                    create: orderLines.map((line) => ({
+                        quantity: line.quantity,
+                        name: line.name,
+                        price: line.price,
+                        currency: store.currency,
+                        product: {
+                            connect: {
+                                id: line.product.id
+                            }
+                        },
+                        variant: line.variant ? {
+                            connect: {
+                                id: line.variant.id
+                            }
+                        } : undefined
+                    }))
+                },
+                // A pharmacist reviews the prescription before the order can be packed.
+                prescription: requiresPrescription ? {
+                    create: {
+                        imageUrl: prescriptionUrl
+                    }
+                } : undefined
+            }
+        });
     });
 
+    if (!order) {
+        return new NextResponse("Store not found", { status: 404 });
+    }
+
     const session = await stripe.checkout.sessions.create({
         line_items,
         mode: "payment",
@@ -74,6 +242,20 @@ export async function POST(
         cancel_url: `${process.env.FRONTEND_STORE_URL}/cart?canceled=1`,
         metadata: {
             orderId: order.id
+        },
+        payment_intent_data: {
+            metadata: {
+                orderId: order.id
+            }
+        }
+    });
+
+    await prismadb.order.update({
+        where: {
+            id: order.id
+        },
+        data: {
+            stripeSessionId: session.id
         }
     });
 
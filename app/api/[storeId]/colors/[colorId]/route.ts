@@ -1,6 +1,9 @@
 import prismadb from '@/lib/prismadb';
 import { auth } from '@clerk/nextjs';
 import { NextResponse } from 'next/server';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { countDependents } from '@/lib/trash';
 
 export async function GET(
   req: Request,
@@ -11,9 +14,10 @@ export async function GET(
       return new NextResponse('Color id is required', { status: 400 });
     }
 
-    const color = await prismadb.color.findUnique({
+    const color = await prismadb.color.findFirst({
       where: {
         id: params.colorId,
+        deletedAt: null,
       },
     });
 
@@ -50,15 +54,22 @@ export async function PATCH(
       return new NextResponse('Color id is required', { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
+    const hasAccess = await canAccessStore(params.storeId, userId, 'catalog:write');
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const existingColor = await prismadb.color.findFirst({
       where: {
-        id: params.storeId,
-        userId,
-      },
+        id: params.colorId,
+        storeId: params.storeId,
+        deletedAt: null,
+      }
     });
 
-    if (!storeByUserId) {
-      return new NextResponse('Unauthorized', { status: 403 });
+    if (!existingColor) {
+      return new NextResponse('Color not found', { status: 404 });
     }
 
     const color = await prismadb.color.updateMany({
@@ -71,6 +82,16 @@ export async function PATCH(
       },
     });
 
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'COLOR',
+      entityId: params.colorId,
+      action: 'UPDATE',
+      before: existingColor,
+      after: { name, value },
+    });
+
     return NextResponse.json(color);
   } catch (error) {
     console.log('[COLOR_PATCH]', error);
@@ -93,21 +114,46 @@ export async function DELETE(
       return new NextResponse('Color id is required', { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
+    const hasAccess = await canAccessStore(params.storeId, userId, 'catalog:write');
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const existingColor = await prismadb.color.findFirst({
       where: {
-        id: params.storeId,
-        userId,
-      },
+        id: params.colorId,
+        storeId: params.storeId,
+        deletedAt: null,
+      }
     });
 
-    if (!storeByUserId) {
-      return new NextResponse('Unauthorized', { status: 403 });
+    if (!existingColor) {
+      return new NextResponse('Color not found', { status: 404 });
+    }
+
+    const dependents = await countDependents('colors', params.colorId);
+
+    if (dependents > 0) {
+      return new NextResponse('Color is used by products', { status: 409 });
     }
 
-    const color = await prismadb.color.deleteMany({
+    const color = await prismadb.color.updateMany({
       where: {
         id: params.colorId,
       },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'COLOR',
+      entityId: params.colorId,
+      action: 'DELETE',
+      before: existingColor,
     });
 
     return NextResponse.json(color);
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
 
 export async function POST(
   req: Request,
@@ -28,14 +30,9 @@ export async function POST(
         return new NextResponse("Color id is required", { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
-    });
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
 
-    if (!storeByUserId) {
+    if (!hasAccess) {
         return new NextResponse("Unauthorized", { status: 403 });
     }
 
@@ -47,6 +44,15 @@ export async function POST(
       }
     });
 
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'COLOR',
+      entityId: color.id,
+      action: 'CREATE',
+      after: color,
+    });
+
     return NextResponse.json(color);
   } catch (error) {
     console.log('[COLORS_POST]', error);
@@ -66,6 +72,7 @@ export async function GET(
       const colors = await prismadb.color.findMany({
         where: {
             storeId: params.storeId,
+            deletedAt: null,
         },
       });
   
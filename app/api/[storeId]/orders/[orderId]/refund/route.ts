@@ -0,0 +1,114 @@
+import prismadb from '@/lib/prismadb';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { RefundLine, getRefundableLines, refundOrder } from '@/lib/refunds';
+import { canTransitionOrderStatus } from '@/lib/order-status';
+
+export async function POST(
+  req: Request,
+  { params }: { params: { storeId: string, orderId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { items, reason, cancel } = body;
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!params.orderId) {
+      return new NextResponse("Order id is required", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "orders:refund");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const order = await prismadb.order.findFirst({
+      where: {
+        id: params.orderId,
+        storeId: params.storeId,
+      },
+      include: {
+        orderItems: true,
+      }
+    });
+
+    if (!order) {
+      return new NextResponse("Order not found", { status: 404 });
+    }
+
+    if (!order.isPaid || !order.paymentIntentId) {
+      return new NextResponse("Only paid orders can be refunded", { status: 400 });
+    }
+
+    if (order.status === "CANCELLED" || order.status === "REFUNDED") {
+      return new NextResponse("Order is already closed", { status: 400 });
+    }
+
+    if (items !== undefined && !Array.isArray(items)) {
+      return new NextResponse("Items must be a list of order items and quantities", { status: 400 });
+    }
+
+    // Shipped and delivered orders can no longer be cancelled; they are refunded instead.
+    const cancelOrder = !!cancel && canTransitionOrderStatus(order.status, "CANCELLED");
+
+    const refundableLines = getRefundableLines(order.orderItems);
+
+    // Without items the whole remaining order is refunded; cancelling always refunds everything.
+    const lines: RefundLine[] = cancel || !items ? refundableLines : items;
+
+    if (lines.length === 0) {
+      return new NextResponse("Nothing left to refund", { status: 400 });
+    }
+
+    // Each line is priced on its own, so a repeated item would be refunded twice.
+    const orderItemIds = lines.map((line) => line?.orderItemId);
+
+    if (new Set(orderItemIds).size !== orderItemIds.length) {
+      return new NextResponse("Each order item may appear only once", { status: 400 });
+    }
+
+    for (const line of lines) {
+      const refundable = refundableLines.find((item) => item.orderItemId === line?.orderItemId);
+
+      if (!refundable) {
+        return new NextResponse(`Order item ${line.orderItemId} cannot be refunded`, { status: 400 });
+      }
+
+      if (!Number.isInteger(line.quantity) || line.quantity < 1 || line.quantity > refundable.quantity) {
+        return new NextResponse(`Invalid refund quantity for order item ${line.orderItemId}`, { status: 400 });
+      }
+    }
+
+    const refundedOrder = await refundOrder({
+      orderId: order.id,
+      lines,
+      reason,
+      cancel: cancelOrder,
+      userId,
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "ORDER",
+      entityId: order.id,
+      action: "UPDATE",
+      before: { refundedAmount: order.refundedAmount },
+      after: { refundedAmount: refundedOrder.refundedAmount, refundedLines: lines, refundReason: reason, cancel: cancelOrder },
+    });
+
+    return NextResponse.json(refundedOrder);
+  } catch (error) {
+    console.log('[ORDER_REFUND_POST]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
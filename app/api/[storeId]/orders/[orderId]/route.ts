@@ -0,0 +1,171 @@
+import prismadb from '@/lib/prismadb';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { canTransitionOrderStatus, isOrderStatus } from '@/lib/order-status';
+import { isBlockedByPrescription } from '@/lib/prescription';
+import { markOrderPaid } from '@/lib/paid-orders';
+import { expireCheckoutSession } from '@/lib/unpaid-orders';
+
+export async function GET(
+  req: Request,
+  { params }: { params: { storeId: string, orderId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthenticated', { status: 401 });
+    }
+
+    if (!params.orderId) {
+      return new NextResponse('Order id is required', { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId);
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const order = await prismadb.order.findFirst({
+      where: {
+        id: params.orderId,
+        storeId: params.storeId,
+      },
+      include: {
+        orderItems: true,
+        prescription: true,
+        statusHistory: {
+          orderBy: {
+            createdAt: 'asc'
+          }
+        }
+      }
+    });
+
+    return NextResponse.json(order);
+  } catch (error) {
+    console.log('[ORDER_GET]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: { storeId: string, orderId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { status } = body;
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!isOrderStatus(status)) {
+      return new NextResponse("Valid status is required", { status: 400 });
+    }
+
+    if (!params.orderId) {
+      return new NextResponse("Order id is required", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "orders:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingOrder = await prismadb.order.findFirst({
+      where: {
+        id: params.orderId,
+        storeId: params.storeId,
+      },
+      include: {
+        prescription: true,
+      }
+    });
+
+    if (!existingOrder) {
+      return new NextResponse("Order not found", { status: 404 });
+    }
+
+    if (!canTransitionOrderStatus(existingOrder.status, status)) {
+      return new NextResponse(`Cannot change order status from ${existingOrder.status} to ${status}`, { status: 400 });
+    }
+
+    if (status === "REFUNDED" || (status === "CANCELLED" && existingOrder.isPaid)) {
+      return new NextResponse("Paid orders must be refunded through the refund endpoint", { status: 400 });
+    }
+
+    if (isBlockedByPrescription(status, existingOrder.prescription)) {
+      return new NextResponse("The prescription must be approved before the order is fulfilled", { status: 409 });
+    }
+
+    // A manual payment takes stock exactly like the Stripe webhook does.
+    const order = status === "PAID" ? await markOrderPaid(existingOrder.id, {
+      fromStatus: existingOrder.status,
+      userId,
+    }) : await prismadb.$transaction(async (tx) => {
+      // Guard on the previous status so concurrent requests cannot both apply a transition.
+      const result = await tx.order.updateMany({
+        where: {
+          id: existingOrder.id,
+          status: existingOrder.status,
+        },
+        data: {
+          status,
+        }
+      });
+
+      if (result.count === 0) {
+        return null;
+      }
+
+      return tx.order.update({
+        where: {
+          id: existingOrder.id,
+        },
+        data: {
+          statusHistory: {
+            create: {
+              fromStatus: existingOrder.status,
+              toStatus: status,
+              userId,
+            }
+          }
+        }
+      });
+    });
+
+    if (!order) {
+      return new NextResponse("Order status has changed, please reload", { status: 409 });
+    }
+
+    // An unpaid order leaves PENDING or FAILED here, either paid by hand or closed, so its
+    // checkout link must stop taking payments.
+    if (!existingOrder.isPaid && existingOrder.stripeSessionId) {
+      await expireCheckoutSession(existingOrder.stripeSessionId);
+    }
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "ORDER",
+      entityId: existingOrder.id,
+      action: "UPDATE",
+      before: { status: existingOrder.status },
+      after: { status },
+    });
+
+    return NextResponse.json(order);
+  } catch (error) {
+    console.log('[ORDER_PATCH]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
@@ -0,0 +1,140 @@
+import { format } from 'date-fns';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { createCsvStream } from '@/lib/csv';
+import { TableSearchParams } from '@/lib/data-table';
+import { getFormatter } from '@/lib/currency';
+import { getOrderQuery } from '@/lib/order-query';
+import { orderStatusLabels } from '@/lib/order-status';
+
+const EXPORT_BATCH_SIZE = 500;
+
+const headers = [
+  'ID Pesanan',
+  'Tanggal',
+  'Status',
+  'Pembayaran',
+  'No. Telp',
+  'Alamat',
+  'Alamat 1',
+  'Alamat 2',
+  'Kota',
+  'Provinsi',
+  'Kode Pos',
+  'Negara',
+  'Produk',
+  'Jumlah',
+  'Harga Satuan',
+  'Subtotal',
+  'Total Pesanan',
+  'Dana Dikembalikan',
+  'Mata Uang',
+];
+
+// One CSV row per line item; the order's own columns repeat on each of its lines.
+async function* getOrderRows(storeId: string, searchParams: TableSearchParams, locale: string) {
+  const { where, orderBy } = getOrderQuery(storeId, searchParams);
+
+  let cursor: string | undefined;
+
+  // Paging by cursor rather than offset keeps rows created during the export from shifting
+  // the pages and repeating rows.
+  for (;;) {
+    const orders = await prismadb.order.findMany({
+      where,
+      orderBy,
+      include: {
+        orderItems: true,
+      },
+      cursor: cursor ? { id: cursor } : undefined,
+      skip: cursor ? 1 : undefined,
+      take: EXPORT_BATCH_SIZE,
+    });
+
+    for (const order of orders) {
+      const formatter = getFormatter({ currency: order.currency, locale });
+      const total = order.orderItems.reduce((sum, item) => sum + item.price.toNumber() * item.quantity, 0);
+      const orderColumns = [
+        order.id,
+        format(order.createdAt, 'yyyy-MM-dd HH:mm'),
+        orderStatusLabels[order.status],
+        order.isPaid ? 'Lunas' : 'Belum Dibayar',
+        order.phone,
+        order.address,
+        order.addressLine1,
+        order.addressLine2,
+        order.city,
+        order.state,
+        order.postalCode,
+        order.country,
+      ];
+      const totalColumns = [
+        formatter.format(total),
+        formatter.format(order.refundedAmount.toNumber()),
+        order.currency,
+      ];
+
+      if (order.orderItems.length === 0) {
+        yield [...orderColumns, '', '', '', '', ...totalColumns];
+      }
+
+      for (const item of order.orderItems) {
+        yield [
+          ...orderColumns,
+          item.name,
+          item.quantity,
+          formatter.format(item.price.toNumber()),
+          formatter.format(item.price.toNumber() * item.quantity),
+          ...totalColumns,
+        ];
+      }
+    }
+
+    if (orders.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    cursor = orders[orders.length - 1].id;
+  }
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: { storeId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId);
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const store = await prismadb.store.findUniqueOrThrow({
+      where: {
+        id: params.storeId,
+      }
+    });
+
+    const { searchParams } = new URL(req.url);
+    const rows = getOrderRows(params.storeId, Object.fromEntries(searchParams), store.locale);
+
+    return new NextResponse(createCsvStream(headers, rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="pesanan-${format(new Date(), 'yyyy-MM-dd')}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.log('[ORDERS_EXPORT]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
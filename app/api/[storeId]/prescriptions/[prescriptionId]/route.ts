@@ -0,0 +1,88 @@
+import prismadb from '@/lib/prismadb';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { isPrescriptionDecision } from '@/lib/prescription';
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: { storeId: string, prescriptionId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { status } = body;
+    const note = typeof body.note === "string" ? body.note.trim() : "";
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!isPrescriptionDecision(status)) {
+      return new NextResponse("Status must be APPROVED or REJECTED", { status: 400 });
+    }
+
+    if (status === "REJECTED" && !note) {
+      return new NextResponse("A note is required when rejecting a prescription", { status: 400 });
+    }
+
+    if (!params.prescriptionId) {
+      return new NextResponse("Prescription id is required", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "prescriptions:review");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingPrescription = await prismadb.prescription.findFirst({
+      where: {
+        id: params.prescriptionId,
+        order: {
+          storeId: params.storeId,
+        },
+      }
+    });
+
+    if (!existingPrescription) {
+      return new NextResponse("Prescription not found", { status: 404 });
+    }
+
+    // Only a pending prescription can be decided, so two pharmacists cannot overwrite each other.
+    const result = await prismadb.prescription.updateMany({
+      where: {
+        id: existingPrescription.id,
+        status: "PENDING",
+      },
+      data: {
+        status,
+        note: note || null,
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+      }
+    });
+
+    if (result.count === 0) {
+      return new NextResponse("Prescription has already been reviewed", { status: 409 });
+    }
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "PRESCRIPTION",
+      entityId: existingPrescription.id,
+      action: "UPDATE",
+      before: { status: existingPrescription.status, note: existingPrescription.note },
+      after: { status, note: note || null },
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.log('[PRESCRIPTION_PATCH]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
@@ -0,0 +1,186 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { auth } from '@clerk/nextjs';
+import { isValid, parseISO } from 'date-fns';
+
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { syncProductStock } from '@/lib/stock-batches';
+
+const findBatch = (params: { storeId: string, productId: string, batchId: string }) => {
+  return prismadb.stockBatch.findFirst({
+    where: {
+      id: params.batchId,
+      product: {
+        id: params.productId,
+        storeId: params.storeId,
+        deletedAt: null,
+      },
+    }
+  });
+};
+
+// Corrects a batch after a stock count or a typo; sold units stay allocated to their orders.
+export async function PATCH(
+  req: Request,
+  { params }: { params: { storeId: string, productId: string, batchId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { quantity } = body;
+    const batchNumber = typeof body.batchNumber === 'string' ? body.batchNumber.trim() : '';
+    const expiryDate = parseISO(typeof body.expiryDate === 'string' ? body.expiryDate : '');
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!batchNumber) {
+      return new NextResponse("Batch number is required", { status: 400 });
+    }
+
+    if (!isValid(expiryDate)) {
+      return new NextResponse("Expiry date is required", { status: 400 });
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return new NextResponse("Quantity must be zero or more", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingBatch = await findBatch(params);
+
+    if (!existingBatch) {
+      return new NextResponse("Batch not found", { status: 404 });
+    }
+
+    const batch = await prismadb.$transaction(async (tx) => {
+      const batch = await tx.stockBatch.update({
+        where: {
+          id: existingBatch.id,
+        },
+        data: {
+          batchNumber,
+          expiryDate,
+          quantity,
+        }
+      });
+
+      await syncProductStock(tx, existingBatch.productId);
+
+      return batch;
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "STOCK_BATCH",
+      entityId: batch.id,
+      action: "UPDATE",
+      before: existingBatch,
+      after: batch,
+    });
+
+    return NextResponse.json(batch);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return new NextResponse("Batch number already exists for this product", { status: 409 });
+    }
+
+    console.log('[BATCH_PATCH]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: { storeId: string, productId: string, batchId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingBatch = await findBatch(params);
+
+    if (!existingBatch) {
+      return new NextResponse("Batch not found", { status: 404 });
+    }
+
+    const allocations = await prismadb.orderItemBatch.count({
+      where: {
+        batchId: existingBatch.id,
+      }
+    });
+
+    // Sold batches stay on record so refunds can return units to them; set the quantity to 0 instead.
+    if (allocations > 0) {
+      return new NextResponse("Batch has been sold on orders and cannot be deleted", { status: 409 });
+    }
+
+    await prismadb.$transaction(async (tx) => {
+      await tx.stockBatch.delete({
+        where: {
+          id: existingBatch.id,
+        }
+      });
+
+      // Covers the last batch, after which the product or variant goes back to manually counted stock.
+      await tx.product.update({
+        where: {
+          id: existingBatch.productId,
+        },
+        data: {
+          stock: {
+            decrement: existingBatch.quantity,
+          },
+        }
+      });
+
+      if (existingBatch.variantId) {
+        await tx.productVariant.update({
+          where: {
+            id: existingBatch.variantId,
+          },
+          data: {
+            stock: {
+              decrement: existingBatch.quantity,
+            },
+          }
+        });
+      }
+
+      await syncProductStock(tx, existingBatch.productId);
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "STOCK_BATCH",
+      entityId: existingBatch.id,
+      action: "DELETE",
+      before: existingBatch,
+    });
+
+    return NextResponse.json(existingBatch);
+  } catch (error) {
+    console.log('[BATCH_DELETE]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
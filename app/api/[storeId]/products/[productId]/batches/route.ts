@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { auth } from '@clerk/nextjs';
+import { isValid, parseISO } from 'date-fns';
+
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { syncProductStock } from '@/lib/stock-batches';
+
+export async function POST(
+  req: Request,
+  { params }: { params: { storeId: string, productId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { quantity, variantId } = body;
+    const batchNumber = typeof body.batchNumber === 'string' ? body.batchNumber.trim() : '';
+    const expiryDate = parseISO(typeof body.expiryDate === 'string' ? body.expiryDate : '');
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!batchNumber) {
+      return new NextResponse("Batch number is required", { status: 400 });
+    }
+
+    if (!isValid(expiryDate)) {
+      return new NextResponse("Expiry date is required", { status: 400 });
+    }
+
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return new NextResponse("Quantity must be zero or more", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const product = await prismadb.product.findFirst({
+      where: {
+        id: params.productId,
+        storeId: params.storeId,
+        deletedAt: null,
+      },
+      include: {
+        variants: true,
+      }
+    });
+
+    if (!product) {
+      return new NextResponse("Product not found", { status: 404 });
+    }
+
+    // Products with variants keep their batches per variant.
+    if (product.variants.length > 0 && !product.variants.some((variant) => variant.id === variantId)) {
+      return new NextResponse("Variant id is required", { status: 400 });
+    }
+
+    const batch = await prismadb.$transaction(async (tx) => {
+      const batch = await tx.stockBatch.create({
+        data: {
+          productId: product.id,
+          variantId: product.variants.length > 0 ? variantId : null,
+          batchNumber,
+          expiryDate,
+          quantity,
+        }
+      });
+
+      await syncProductStock(tx, product.id);
+
+      return batch;
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "STOCK_BATCH",
+      entityId: batch.id,
+      action: "CREATE",
+      after: batch,
+    });
+
+    return NextResponse.json(batch);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return new NextResponse("Batch number already exists for this product", { status: 409 });
+    }
+
+    console.log('[BATCHES_POST]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
@@ -1,6 +1,20 @@
 import prismadb from '@/lib/prismadb';
 import { auth } from '@clerk/nextjs';
 import { NextResponse } from 'next/server';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { isRegistrationNumber, normalizeRegistrationNumber, parseActiveIngredients } from '@/lib/product-attributes';
+import { getSellableProductWhere, syncProductStock } from '@/lib/stock-batches';
+import {
+  getRemovedBatchedVariants,
+  getVariantSummary,
+  hasNewNegativeStock,
+  parseProductVariants,
+  saveProductVariants,
+} from '@/lib/product-variants';
+import { isBarcode, normalizeBarcode, normalizeSku } from '@/lib/barcodes';
+import { getTakenProductCodes } from '@/lib/product-codes';
+import { lockStore } from '@/lib/store-lock';
 
 export async function GET(
     req: Request,
@@ -11,15 +25,31 @@ export async function GET(
         return new NextResponse('Product id is required', { status: 400 });
       }
   
-      const product = await prismadb.product.findUnique({
+      const product = await prismadb.product.findFirst({
         where: {
           id: params.productId,
+          deletedAt: null,
+          ...getSellableProductWhere(),
         },
         include: {
           images: true,
           category: true,
           size: true,
-          color: true
+          color: true,
+          activeIngredients: {
+            orderBy: {
+              position: 'asc'
+            }
+          },
+          variants: {
+            include: {
+              size: true,
+              color: true
+            },
+            orderBy: {
+              position: 'asc'
+            }
+          }
         }
       });
       
@@ -40,16 +70,33 @@ export async function PATCH(
 
     const { 
       name,
-      price,
       categoryId,
-      colorId,
-      sizeId,
       images,
       isFeatured,
-      isArchived
+      isArchived,
+      requiresPrescription,
+      manufacturer,
+      packageContents,
+      indications,
+      contraindications
     } = body;
 
 
+    const registrationNumber = normalizeRegistrationNumber(body.registrationNumber);
+    const activeIngredients = parseActiveIngredients(body.activeIngredients);
+    const variants = parseProductVariants(body.variants);
+    const sku = normalizeSku(body.sku) || null;
+    const barcode = normalizeBarcode(body.barcode) || null;
+
+    // With variants, the product's own size, color, price and stock follow them.
+    const { sizeId, colorId, price } = variants?.length ? getVariantSummary(variants) : body;
+    const stock = variants?.length
+      ? variants.reduce((total, variant) => total + variant.stock, 0)
+      : body.stock;
+
+    // The stock the form was loaded with; the save is refused if it has changed since.
+    const loadedStock = body.loadedStock;
+
     if (!userId) {
       return new NextResponse("Unauthenticated", { status: 401 });
     }
@@ -65,6 +112,16 @@ export async function PATCH(
         return new NextResponse("Price is required", { status: 400 });
     }
 
+    if (!Number.isInteger(loadedStock)) {
+        return new NextResponse("Loaded stock is required", { status: 400 });
+    }
+
+    // An oversold product may keep the negative stock it was loaded with; variants are
+    // checked one by one below.
+    if (stock === undefined || stock === null || (stock < 0 && !variants?.length && stock !== loadedStock)) {
+        return new NextResponse("Stock must be zero or more", { status: 400 });
+    }
+
     if (!categoryId) {
       return new NextResponse("Category id is required", { status: 400 });
     }
@@ -77,54 +134,204 @@ export async function PATCH(
     return new NextResponse("Color id is required", { status: 400 });
     }
 
+    if (registrationNumber && !isRegistrationNumber(registrationNumber)) {
+      return new NextResponse("Registration number must be a BPOM number such as DKL1234567890A1", { status: 400 });
+    }
+
+    if (barcode && !isBarcode(barcode)) {
+      return new NextResponse("Barcode must be a valid EAN-8, UPC-A or EAN-13 code", { status: 400 });
+    }
+
+    if (!activeIngredients) {
+      return new NextResponse("Active ingredients need a name and a strength", { status: 400 });
+    }
+
+    if (!variants) {
+      return new NextResponse("Each variant needs a size, a color, a price, stock and a valid barcode if set, and a combination may appear once", { status: 400 });
+    }
+
     if (!params.productId) {
       return new NextResponse("Product id is required", { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingProduct = await prismadb.product.findFirst({
+      where: {
+        id: params.productId,
+        storeId: params.storeId,
+        deletedAt: null,
+      },
+      include: {
+        images: true,
+        activeIngredients: true,
+        variants: true,
+        _count: {
+          select: {
+            batches: true,
+          }
+        }
+      }
+    });
+
+    if (!existingProduct) {
+      return new NextResponse("Product not found", { status: 404 });
+    }
+
+    if (hasNewNegativeStock(variants, existingProduct.variants)) {
+      return new NextResponse("Stock must be zero or more", { status: 400 });
+    }
+
+    const removedBatchedVariants = await getRemovedBatchedVariants(prismadb, existingProduct.id, variants);
+
+    if (removedBatchedVariants.length > 0) {
+      return new NextResponse("Variants with stock batches cannot be removed", { status: 409 });
+    }
+
+    // A batched product's stock follows its batches and is not edited directly.
+    const productStock = existingProduct._count.batches > 0 ? existingProduct.stock : stock;
+
+    // Saved as a whole so a failure part-way (e.g. a variant that cannot be written) leaves
+    // the product, its images and its variants as they were.
+    const result = await prismadb.$transaction(async (tx) => {
+      await lockStore(tx, params.storeId);
+
+      const takenCodes = await getTakenProductCodes(tx, params.storeId, [{ sku, barcode }, ...variants], existingProduct.id);
+
+      if (takenCodes.length > 0) {
+        return { takenCodes };
+      }
+
+      // Guarded on the loaded stock, so an order paid while the form was open is not undone
+      // by writing the old stock back.
+      const guarded = await tx.product.updateMany({
+        where: {
+          id: params.productId,
+          stock: loadedStock,
+        },
+        data: {
+          name,
+          price,
+          stock: productStock,
+          categoryId,
+          colorId,
+          sizeId,
+          manufacturer,
+          registrationNumber,
+          packageContents,
+          indications,
+          contraindications,
+          sku,
+          barcode,
+          isFeatured,
+          isArchived,
+          requiresPrescription,
+        },
+      });
+
+      if (guarded.count === 0) {
+        return { takenCodes, stockChanged: true };
+      }
+
+      await tx.product.update({
+        where: {
+          id: params.productId,
+        },
+        data: {
+          activeIngredients: {
+            deleteMany: {}
+          },
+          images: {
+            deleteMany: {}
+          },
+        },
+      });
+
+      const updatedProduct = await tx.product.update({
         where: {
-            id: params.storeId,
-            userId
+          id: params.productId
+        },
+        data: {
+          activeIngredients: {
+            createMany: {
+              data: activeIngredients
+            }
+          },
+          images: {
+            createMany: {
+              data: [
+                ...images.map((image: { url: string }) => image),
+              ]
+            }
+          }
         }
+      });
+
+      await saveProductVariants(tx, existingProduct.id, variants);
+      await syncProductStock(tx, existingProduct.id);
+
+      return { takenCodes, product: updatedProduct };
+    }, {
+      timeout: 15000,
     });
 
-    if (!storeByUserId) {
-        return new NextResponse("Unauthorized", { status: 403 } )
+    if (result.stockChanged) {
+      return new NextResponse("Stock has changed since the product was loaded, please reload", { status: 409 });
     }
 
-    await prismadb.product.update({
-      where: {
-        id: params.productId,
+    if (!result.product) {
+      return new NextResponse(`SKU or barcode already in use: ${result.takenCodes.join(", ")}`, { status: 409 });
+    }
+
+    const { product } = result;
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "PRODUCT",
+      entityId: params.productId,
+      action: "UPDATE",
+      before: {
+        ...existingProduct,
+        images: existingProduct.images.map((image) => image.url),
+        activeIngredients: existingProduct.activeIngredients.map(({ name, strength, position }) => ({ name, strength, position })),
+        variants: existingProduct.variants.map(({ sizeId, colorId, price, stock, sku, barcode, position }) => ({
+          sizeId,
+          colorId,
+          price: price.toNumber(),
+          stock,
+          sku,
+          barcode,
+          position,
+        })),
       },
-      data: {
+      after: {
         name,
         price,
+        stock: productStock,
         categoryId,
         colorId,
         sizeId,
-        images: {
-          deleteMany: {}
-        },
         isFeatured,
         isArchived,
+        requiresPrescription,
+        manufacturer,
+        registrationNumber,
+        packageContents,
+        indications,
+        contraindications,
+        sku,
+        barcode,
+        images: images.map((image: { url: string }) => image.url),
+        activeIngredients,
+        variants,
       },
     });
 
-    const product = await prismadb.product.update({
-      where: {
-        id: params.productId
-      },
-      data: {
-        images: {
-          createMany: {
-            data: [
-              ...images.map((image: { url: string }) => image),
-            ]
-          }
-        }
-      }
-    })
-
     return NextResponse.json(product);
   } catch (error) {
     console.log('[PRODUCT_PATCH]', error);
@@ -147,23 +354,48 @@ export async function DELETE(
       return new NextResponse('Product id is required', { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
-    });
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
 
-    if (!storeByUserId) {
+    if (!hasAccess) {
         return new NextResponse("Unauthorized", { status: 403 });
     }
 
-    const product = await prismadb.product.deleteMany({
+    const existingProduct = await prismadb.product.findFirst({
       where: {
         id: params.productId,
+        storeId: params.storeId,
+        deletedAt: null,
+      },
+      include: {
+        images: true,
       }
     });
-    
+
+    if (!existingProduct) {
+      return new NextResponse("Product not found", { status: 404 });
+    }
+
+    const product = await prismadb.product.updateMany({
+      where: {
+        id: params.productId,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "PRODUCT",
+      entityId: params.productId,
+      action: "DELETE",
+      before: {
+        ...existingProduct,
+        images: existingProduct.images.map((image) => image.url),
+      },
+    });
+
     return NextResponse.json(product);
   } catch (error) {
     console.log('[PRODUCT_DELETE]', error);
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { bulkDeleteItems, bulkUpdateProducts, isProductBulkAction } from '@/lib/catalog-bulk';
+
+export async function POST(
+  req: Request,
+  { params }: { params: { storeId: string } }
+  ) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { action, ids, categoryId, percentage } = body;
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!isProductBulkAction(action)) {
+      return new NextResponse("Unknown bulk action", { status: 400 });
+    }
+
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string")) {
+      return new NextResponse("Ids are required", { status: 400 });
+    }
+
+    if (action === "setCategory" && !categoryId) {
+      return new NextResponse("Category id is required", { status: 400 });
+    }
+
+    if (action === "adjustPrice" && (typeof percentage !== "number" || !isFinite(percentage) || percentage <= -100)) {
+      return new NextResponse("Percentage must be a number greater than -100", { status: 400 });
+    }
+
+    if (!params.storeId) {
+      return new NextResponse("Store id is required", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    if (action === "setCategory") {
+      const category = await prismadb.category.findFirst({
+        where: {
+          id: categoryId,
+          storeId: params.storeId,
+          deletedAt: null,
+        }
+      });
+
+      if (!category) {
+        return new NextResponse("Category not found", { status: 404 });
+      }
+    }
+
+    const result = action === "delete"
+      ? await bulkDeleteItems(params.storeId, "products", ids)
+      : await bulkUpdateProducts({ storeId: params.storeId, ids, action, categoryId, percentage });
+
+    for (const change of result.changes) {
+      await recordAuditLog({
+        storeId: params.storeId,
+        userId,
+        entityType: "PRODUCT",
+        entityId: change.id,
+        action: action === "delete" ? "DELETE" : "UPDATE",
+        before: change.before,
+        after: change.after,
+      });
+    }
+
+    return NextResponse.json({ succeeded: result.succeeded, failed: result.failed });
+  } catch (error) {
+    console.log('[PRODUCTS_BULK]', error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+};
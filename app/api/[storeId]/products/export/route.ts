@@ -0,0 +1,117 @@
+import { format } from 'date-fns';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { createCsvStream } from '@/lib/csv';
+import { TableSearchParams } from '@/lib/data-table';
+import { getProductQuery } from '@/lib/product-query';
+import { getFormatter } from '@/lib/currency';
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Prices are written in the store's currency format. The CSV import always creates new
+// products, so an export is a report and not a file to edit and import back.
+const headers = [
+  'ID',
+  'Nama',
+  'Kategori',
+  'Bentuk Obat',
+  'Tipe Obat',
+  'Harga',
+  'Stok',
+  'Dijual',
+  'Diarsipkan',
+  'Tanggal',
+  'URL Gambar',
+];
+
+async function* getProductRows(
+  storeId: string,
+  searchParams: TableSearchParams,
+  store: { currency: string, locale: string },
+) {
+  const { where, orderBy } = getProductQuery(storeId, searchParams);
+  const formatter = getFormatter(store);
+
+  let cursor: string | undefined;
+
+  // Paging by cursor rather than offset keeps rows created during the export from shifting
+  // the pages and repeating rows.
+  for (;;) {
+    const products = await prismadb.product.findMany({
+      where,
+      orderBy,
+      include: {
+        category: true,
+        size: true,
+        color: true,
+        images: true,
+      },
+      cursor: cursor ? { id: cursor } : undefined,
+      skip: cursor ? 1 : undefined,
+      take: EXPORT_BATCH_SIZE,
+    });
+
+    for (const product of products) {
+      yield [
+        product.id,
+        product.name,
+        product.category.name,
+        product.size.name,
+        product.color.name,
+        formatter.format(product.price.toNumber()),
+        product.stock,
+        product.isFeatured ? 'Ya' : 'Tidak',
+        product.isArchived ? 'Ya' : 'Tidak',
+        format(product.createdAt, 'yyyy-MM-dd HH:mm'),
+        product.images.map((image) => image.url).join('|'),
+      ];
+    }
+
+    if (products.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    cursor = products[products.length - 1].id;
+  }
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: { storeId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId);
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const store = await prismadb.store.findUniqueOrThrow({
+      where: {
+        id: params.storeId,
+      }
+    });
+
+    const { searchParams } = new URL(req.url);
+    const rows = getProductRows(params.storeId, Object.fromEntries(searchParams), store);
+
+    return new NextResponse(createCsvStream(headers, rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="produk-${format(new Date(), 'yyyy-MM-dd')}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.log('[PRODUCTS_EXPORT]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
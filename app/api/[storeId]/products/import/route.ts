@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import {
+  MAX_IMPORT_ROWS,
+  ProductImportRow,
+  commitProductImport,
+  validateProductImport
+} from '@/lib/product-import';
+
+export async function POST(
+  req: Request,
+  { params }: { params: { storeId: string } }
+  ) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { rows, billboardId, dryRun } = body;
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return new NextResponse("Rows are required", { status: 400 });
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return new NextResponse(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`, { status: 400 });
+    }
+
+    if (!params.storeId) {
+      return new NextResponse("Store id is required", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    if (billboardId) {
+      const billboard = await prismadb.billboard.findFirst({
+        where: {
+          id: billboardId,
+          storeId: params.storeId,
+          deletedAt: null,
+        }
+      });
+
+      if (!billboard) {
+        return new NextResponse("Billboard not found", { status: 404 });
+      }
+    }
+
+    const report = await validateProductImport(params.storeId, rows as ProductImportRow[], billboardId);
+
+    if (dryRun) {
+      return NextResponse.json(report);
+    }
+
+    if (!report.valid) {
+      return NextResponse.json(report, { status: 400 });
+    }
+
+    const result = await commitProductImport(params.storeId, rows as ProductImportRow[], billboardId);
+
+    const changes = [
+      ...result.categories.map((item) => ({ entityType: "CATEGORY" as const, item })),
+      ...result.sizes.map((item) => ({ entityType: "SIZE" as const, item })),
+      ...result.colors.map((item) => ({ entityType: "COLOR" as const, item })),
+      ...result.products.map((item) => ({ entityType: "PRODUCT" as const, item })),
+    ];
+
+    for (const change of changes) {
+      await recordAuditLog({
+        storeId: params.storeId,
+        userId,
+        entityType: change.entityType,
+        entityId: change.item.id,
+        action: "CREATE",
+        after: change.item,
+      });
+    }
+
+    return NextResponse.json({
+      products: result.products.length,
+      categories: result.categories.length,
+      sizes: result.sizes.length,
+      colors: result.colors.length,
+    });
+  } catch (error) {
+    console.log('[PRODUCTS_IMPORT]', error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+};
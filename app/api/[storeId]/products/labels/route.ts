@@ -0,0 +1,116 @@
+import { format } from 'date-fns';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { getFormatter } from '@/lib/currency';
+import { getVariantLabel } from '@/lib/product-variants';
+import { BarcodeLabel, renderLabelsPdf, renderLabelsSvg } from '@/lib/barcode-labels';
+
+const MAX_PRODUCTS = 100;
+
+const labelFormats = ['pdf', 'svg'];
+
+// Printable label sheets for the selected products, one label per barcode: the product's own
+// and each variant's. Products without any barcode are skipped.
+export async function GET(
+  req: Request,
+  { params }: { params: { storeId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const { searchParams } = new URL(req.url);
+    const ids = (searchParams.get('ids') || '').split(',').filter(Boolean);
+    const labelFormat = searchParams.get('format') || 'pdf';
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (ids.length === 0 || ids.length > MAX_PRODUCTS) {
+      return new NextResponse(`Select between 1 and ${MAX_PRODUCTS} products`, { status: 400 });
+    }
+
+    if (!labelFormats.includes(labelFormat)) {
+      return new NextResponse(`Format must be one of ${labelFormats.join(", ")}`, { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId);
+
+    if (!hasAccess) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const store = await prismadb.store.findUniqueOrThrow({
+      where: {
+        id: params.storeId,
+      }
+    });
+
+    const products = await prismadb.product.findMany({
+      where: {
+        id: {
+          in: ids,
+        },
+        storeId: params.storeId,
+        deletedAt: null,
+      },
+      include: {
+        variants: {
+          include: {
+            size: true,
+            color: true
+          },
+          orderBy: {
+            position: 'asc'
+          }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+
+    const formatter = getFormatter(store);
+    const labels: BarcodeLabel[] = products.flatMap((product) => [
+      ...(product.barcode ? [{
+        name: product.name,
+        price: formatter.format(product.price.toNumber()),
+        barcode: product.barcode,
+      }] : []),
+      ...product.variants
+        .filter((variant) => variant.barcode)
+        .map((variant) => ({
+          name: `${product.name} (${getVariantLabel(variant)})`,
+          price: formatter.format(variant.price.toNumber()),
+          barcode: variant.barcode!,
+        })),
+    ]);
+
+    if (labels.length === 0) {
+      return new NextResponse("None of the selected products has a barcode", { status: 400 });
+    }
+
+    const filename = `label-barcode-${format(new Date(), 'yyyy-MM-dd')}.${labelFormat}`;
+
+    if (labelFormat === 'svg') {
+      return new NextResponse(renderLabelsSvg(labels), {
+        headers: {
+          'Content-Type': 'image/svg+xml; charset=utf-8',
+          'Content-Disposition': `inline; filename="${filename}"`,
+        },
+      });
+    }
+
+    return new NextResponse(renderLabelsPdf(labels), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.log('[PRODUCTS_LABELS]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
@@ -0,0 +1,70 @@
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { isBarcode, normalizeBarcode } from '@/lib/barcodes';
+
+// Finds the product a scanned barcode belongs to. When the barcode is a variant's, `variantId`
+// names it; archived products are returned too so staff can still identify them.
+export async function GET(
+  req: Request,
+  { params }: { params: { storeId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const { searchParams } = new URL(req.url);
+    const barcode = normalizeBarcode(searchParams.get('barcode'));
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!isBarcode(barcode)) {
+      return new NextResponse("Barcode must be a valid EAN-8, UPC-A or EAN-13 code", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId);
+
+    if (!hasAccess) {
+      return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const product = await prismadb.product.findFirst({
+      where: {
+        storeId: params.storeId,
+        deletedAt: null,
+        OR: [
+          { barcode },
+          { variants: { some: { barcode } } },
+        ],
+      },
+      include: {
+        images: true,
+        category: true,
+        size: true,
+        color: true,
+        variants: {
+          include: {
+            size: true,
+            color: true
+          },
+          orderBy: {
+            position: 'asc'
+          }
+        }
+      }
+    });
+
+    if (!product) {
+      return new NextResponse("Product not found", { status: 404 });
+    }
+
+    const variant = product.variants.find((item) => item.barcode === barcode);
+
+    return NextResponse.json({ ...product, variantId: variant?.id || null });
+  } catch (error) {
+    console.log('[PRODUCTS_LOOKUP]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
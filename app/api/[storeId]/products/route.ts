@@ -1,6 +1,20 @@
 import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { auth } from '@clerk/nextjs';
 import prismadb from '@/lib/prismadb';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import {
+  getProductSearchConditions,
+  isRegistrationNumber,
+  normalizeRegistrationNumber,
+  parseActiveIngredients,
+} from '@/lib/product-attributes';
+import { getSellableProductWhere } from '@/lib/stock-batches';
+import { getVariantSummary, hasNewNegativeStock, parseProductVariants } from '@/lib/product-variants';
+import { isBarcode, normalizeBarcode, normalizeSku } from '@/lib/barcodes';
+import { getTakenProductCodes } from '@/lib/product-codes';
+import { lockStore } from '@/lib/store-lock';
 
 export async function POST(
   req: Request,
@@ -12,15 +26,29 @@ export async function POST(
 
     const { 
         name,
-        price,
         categoryId,
-        colorId,
-        sizeId,
         images,
         isFeatured,
-        isArchived
+        isArchived,
+        requiresPrescription,
+        manufacturer,
+        packageContents,
+        indications,
+        contraindications
       } = body;
 
+    const registrationNumber = normalizeRegistrationNumber(body.registrationNumber);
+    const activeIngredients = parseActiveIngredients(body.activeIngredients);
+    const variants = parseProductVariants(body.variants);
+    const sku = normalizeSku(body.sku) || null;
+    const barcode = normalizeBarcode(body.barcode) || null;
+
+    // With variants, the product's own size, color, price and stock follow them.
+    const { sizeId, colorId, price } = variants?.length ? getVariantSummary(variants) : body;
+    const stock = variants?.length
+      ? variants.reduce((total, variant) => total + variant.stock, 0)
+      : body.stock;
+
     if (!userId) {
       return new NextResponse("Unauthenticated", { status: 401 });
     }
@@ -36,6 +64,10 @@ export async function POST(
         return new NextResponse("Price is required", { status: 400 });
     }
 
+    if (stock === undefined || stock === null || stock < 0) {
+        return new NextResponse("Stock must be zero or more", { status: 400 });
+    }
+
     if (!categoryId) {
       return new NextResponse("Category id is required", { status: 400 });
     }
@@ -48,39 +80,101 @@ export async function POST(
     return new NextResponse("Color id is required", { status: 400 });
     }
 
+    if (registrationNumber && !isRegistrationNumber(registrationNumber)) {
+      return new NextResponse("Registration number must be a BPOM number such as DKL1234567890A1", { status: 400 });
+    }
+
+    if (barcode && !isBarcode(barcode)) {
+      return new NextResponse("Barcode must be a valid EAN-8, UPC-A or EAN-13 code", { status: 400 });
+    }
+
+    if (!activeIngredients) {
+      return new NextResponse("Active ingredients need a name and a strength", { status: 400 });
+    }
+
+    if (!variants || hasNewNegativeStock(variants)) {
+      return new NextResponse("Each variant needs a size, a color, a price, stock and a valid barcode if set, and a combination may appear once", { status: 400 });
+    }
+
     if (!params.storeId) {
         return new NextResponse("Store id is required", { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
-    });
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
 
-    if (!storeByUserId) {
+    if (!hasAccess) {
         return new NextResponse("Unauthorized", { status: 403 });
     }
 
-    const product = await prismadb.product.create({
-      data: {
-        name,
-        price,
-        isFeatured,
-        isArchived,
-        categoryId,
-        colorId,
-        sizeId,
-        storeId: params.storeId,
-        images: {
-          createMany: {
-            data: [
-              ...images.map((image: { url: string }) => image)
-            ]
+    const result = await prismadb.$transaction(async (tx) => {
+      await lockStore(tx, params.storeId);
+
+      const takenCodes = await getTakenProductCodes(tx, params.storeId, [{ sku, barcode }, ...variants]);
+
+      if (takenCodes.length > 0) {
+        return { takenCodes };
+      }
+
+      const product = await tx.product.create({
+        data: {
+          name,
+          price,
+          stock,
+          isFeatured,
+          isArchived,
+          requiresPrescription,
+          categoryId,
+          colorId,
+          sizeId,
+          manufacturer,
+          registrationNumber,
+          packageContents,
+          indications,
+          contraindications,
+          sku,
+          barcode,
+          storeId: params.storeId,
+          activeIngredients: {
+            createMany: {
+              data: activeIngredients
+            }
+          },
+          variants: {
+            createMany: {
+              data: variants
+            }
+          },
+          images: {
+            createMany: {
+              data: [
+                ...images.map((image: { url: string }) => image)
+              ]
+            }
           }
         }
-      }
+      });
+
+      return { takenCodes, product };
+    });
+
+    if (!result.product) {
+      return new NextResponse(`SKU or barcode already in use: ${result.takenCodes.join(", ")}`, { status: 409 });
+    }
+
+    const { product } = result;
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: "PRODUCT",
+      entityId: product.id,
+      action: "CREATE",
+      after: {
+        ...product,
+        images: images.map((image: { url: string }) => image.url),
+        activeIngredients,
+        variants,
+      },
     });
 
     return NextResponse.json(product);
@@ -90,6 +184,29 @@ export async function POST(
   }
 };
 
+// Storefront sort keys; the id tiebreaker keeps cursor pagination stable.
+const sortOptions: Record<string, Prisma.ProductOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+  price_asc: [{ price: 'asc' }, { id: 'asc' }],
+  price_desc: [{ price: 'desc' }, { id: 'desc' }],
+  name: [{ name: 'asc' }, { id: 'asc' }],
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+const parseBoolean = (value: string | null) => {
+  if (value === "true") {
+    return true;
+  }
+
+  if (value === "false") {
+    return false;
+  }
+
+  return undefined;
+};
+
 export async function GET(
     req: Request,
     { params }: { params: { storeId: string } }
@@ -99,33 +216,98 @@ export async function GET(
       const categoryId = searchParams.get("categoryId") || undefined;
       const colorId = searchParams.get("colorId") || undefined;
       const sizeId = searchParams.get("sizeId") || undefined;
-      const isFeatured = searchParams.get("categoryId");
+      const isFeatured = parseBoolean(searchParams.get("isFeatured"));
+      const q = searchParams.get("q")?.trim() || undefined;
+      const minPrice = searchParams.get("minPrice");
+      const maxPrice = searchParams.get("maxPrice");
+      const sort = searchParams.get("sort") || "newest";
+      const cursor = searchParams.get("cursor") || undefined;
+      const limit = Number(searchParams.get("limit") || DEFAULT_PAGE_SIZE);
 
       if (!params.storeId) {
           return new NextResponse("Store id is required", { status: 400 });
       }
-  
+
+      if ((minPrice && isNaN(Number(minPrice))) || (maxPrice && isNaN(Number(maxPrice)))) {
+          return new NextResponse("Price range must be numeric", { status: 400 });
+      }
+
+      if (!sortOptions[sort]) {
+          return new NextResponse(`Sort must be one of ${Object.keys(sortOptions).join(", ")}`, { status: 400 });
+      }
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+          return new NextResponse(`Limit must be between 1 and ${MAX_PAGE_SIZE}`, { status: 400 });
+      }
+
+      const where: Prisma.ProductWhereInput = {
+          storeId: params.storeId,
+          deletedAt: null,
+          categoryId,
+          isFeatured,
+          isArchived: false,
+          price: {
+              gte: minPrice ? Number(minPrice) : undefined,
+              lte: maxPrice ? Number(maxPrice) : undefined,
+          },
+          OR: q ? [
+              ...getProductSearchConditions(q),
+              { category: { name: { contains: q, mode: 'insensitive' } } },
+          ] : undefined,
+          AND: [
+              // Products are hidden while out of stock, as are batched products whose
+              // remaining units have all expired.
+              { stock: { gt: 0 } },
+              getSellableProductWhere(),
+              sizeId ? { OR: [{ sizeId }, { variants: { some: { sizeId } } }] } : {},
+              colorId ? { OR: [{ colorId }, { variants: { some: { colorId } } }] } : {},
+          ],
+      };
+
+      const total = await prismadb.product.count({ where });
+
+      // One extra row tells whether another page follows.
       const products = await prismadb.product.findMany({
-        where: {
-            storeId: params.storeId,
-            categoryId,
-            colorId,
-            sizeId,
-            isFeatured: isFeatured ? true : undefined,
-            isArchived: false
-        },
+        where,
         include: {
           images: true,
           category: true,
           color: true,
-          size: true
+          size: true,
+          activeIngredients: {
+            orderBy: {
+              position: 'asc'
+            }
+          },
+          variants: {
+            include: {
+              size: true,
+              color: true
+            },
+            orderBy: {
+              position: 'asc'
+            }
+          }
         },
-        orderBy: {
-          createdAt: 'desc'
-        }
+        orderBy: sortOptions[sort],
+        cursor: cursor ? { id: cursor } : undefined,
+        skip: cursor ? 1 : undefined,
+        take: limit + 1
+      });
+
+      const hasNextPage = products.length > limit;
+      const page = hasNextPage ? products.slice(0, limit) : products;
+
+      const headers = new Headers({
+        "X-Total-Count": String(total),
+        "X-Page-Size": String(limit),
       });
-  
-      return NextResponse.json(products);
+
+      if (hasNextPage) {
+        headers.set("X-Next-Cursor", page[page.length - 1].id);
+      }
+
+      return NextResponse.json(page, { headers });
     } catch (error) {
       console.log('[PRODUCTS_GET]', error);
       return new NextResponse("Interal error", { status: 500 });
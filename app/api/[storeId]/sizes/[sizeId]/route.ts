@@ -1,6 +1,9 @@
 import prismadb from '@/lib/prismadb';
 import { auth } from '@clerk/nextjs';
 import { NextResponse } from 'next/server';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { countDependents } from '@/lib/trash';
 
 export async function GET(
     req: Request,
@@ -11,9 +14,10 @@ export async function GET(
         return new NextResponse('Size id is required', { status: 400 });
       }
   
-      const size = await prismadb.size.findUnique({
+      const size = await prismadb.size.findFirst({
         where: {
           id: params.sizeId,
+          deletedAt: null,
         }
       });
       
@@ -50,15 +54,22 @@ export async function PATCH(
       return new NextResponse("Size id is required", { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const existingSize = await prismadb.size.findFirst({
+      where: {
+        id: params.sizeId,
+        storeId: params.storeId,
+        deletedAt: null,
+      }
     });
 
-    if (!storeByUserId) {
-        return new NextResponse("Unauthorized", { status: 403 } )
+    if (!existingSize) {
+      return new NextResponse('Size not found', { status: 404 });
     }
 
     const size = await prismadb.size.updateMany({
@@ -71,6 +82,16 @@ export async function PATCH(
       },
     });
 
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'SIZE',
+      entityId: params.sizeId,
+      action: 'UPDATE',
+      before: existingSize,
+      after: { name, value },
+    });
+
     return NextResponse.json(size);
   } catch (error) {
     console.log('[SIZE_PATCH]', error);
@@ -93,22 +114,47 @@ export async function DELETE(
       return new NextResponse('Size id is required', { status: 400 });
     }
 
-    const storeByUserId = await prismadb.store.findFirst({
-        where: {
-            id: params.storeId,
-            userId
-        }
-    });
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
 
-    if (!storeByUserId) {
+    if (!hasAccess) {
         return new NextResponse("Unauthorized", { status: 403 });
     }
 
-    const size = await prismadb.size.deleteMany({
+    const existingSize = await prismadb.size.findFirst({
       where: {
         id: params.sizeId,
+        storeId: params.storeId,
+        deletedAt: null,
       }
     });
+
+    if (!existingSize) {
+      return new NextResponse('Size not found', { status: 404 });
+    }
+
+    const dependents = await countDependents('sizes', params.sizeId);
+
+    if (dependents > 0) {
+      return new NextResponse('Size is used by products', { status: 409 });
+    }
+
+    const size = await prismadb.size.updateMany({
+      where: {
+        id: params.sizeId,
+      },
+      data: {
+        deletedAt: new Date(),
+      },
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'SIZE',
+      entityId: params.sizeId,
+      action: 'DELETE',
+      before: existingSize,
+    });
     
     return NextResponse.json(size);
   } catch (error) {
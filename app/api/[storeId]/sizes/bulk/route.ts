@@ -0,0 +1,3 @@
+import { createBulkDeleteHandler } from '@/lib/bulk-delete-route';
+
+export const POST = createBulkDeleteHandler("sizes");
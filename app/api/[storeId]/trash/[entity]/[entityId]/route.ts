@@ -0,0 +1,67 @@
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import {
+  countDependents,
+  findTrashedItem,
+  isTrashEntity,
+  purgeTrashedItem,
+  trashAuditEntities
+} from '@/lib/trash';
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: { storeId: string, entity: string, entityId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!isTrashEntity(params.entity)) {
+      return new NextResponse("Unknown entity", { status: 400 });
+    }
+
+    if (!params.entityId) {
+      return new NextResponse("Entity id is required", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const trashedItem = await findTrashedItem(params.storeId, params.entity, params.entityId);
+
+    if (!trashedItem) {
+      return new NextResponse("Item not found in trash", { status: 404 });
+    }
+
+    const dependents = await countDependents(params.entity, params.entityId, true);
+
+    if (dependents > 0) {
+      return new NextResponse("Item is still referenced and cannot be purged", { status: 409 });
+    }
+
+    const item = await purgeTrashedItem(params.entity, params.entityId);
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: trashAuditEntities[params.entity],
+      entityId: params.entityId,
+      action: "PURGE",
+      before: trashedItem,
+    });
+
+    return NextResponse.json(item);
+  } catch (error) {
+    console.log('[TRASH_PURGE]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
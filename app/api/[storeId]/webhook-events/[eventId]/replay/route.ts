@@ -0,0 +1,63 @@
+import Stripe from 'stripe';
+import prismadb from '@/lib/prismadb';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { isReplayableWebhookEvent, processStripeEvent } from '@/lib/webhook-events';
+
+export async function POST(
+  req: Request,
+  { params }: { params: { storeId: string, eventId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthenticated", { status: 401 });
+    }
+
+    if (!params.eventId) {
+      return new NextResponse("Event id is required", { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, "webhooks:replay");
+
+    if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+    }
+
+    const webhookEvent = await prismadb.webhookEvent.findFirst({
+      where: {
+        id: params.eventId,
+        storeId: params.storeId,
+      }
+    });
+
+    if (!webhookEvent) {
+      return new NextResponse("Event not found", { status: 404 });
+    }
+
+    if (!isReplayableWebhookEvent(webhookEvent)) {
+      return new NextResponse("Only failed or abandoned events can be replayed", { status: 400 });
+    }
+
+    const result = await processStripeEvent(webhookEvent.payload as unknown as Stripe.Event);
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'WEBHOOK_EVENT',
+      entityId: webhookEvent.id,
+      action: 'REPLAY',
+      before: { status: webhookEvent.status },
+      after: { result },
+    });
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    console.log('[WEBHOOK_EVENT_REPLAY]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
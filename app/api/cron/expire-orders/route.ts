@@ -0,0 +1,30 @@
+import { subHours } from 'date-fns';
+import { NextResponse } from 'next/server';
+
+import { closeUnpaidOrders } from '@/lib/unpaid-orders';
+
+// Unpaid orders older than this many hours are flagged as expired.
+const DEFAULT_MAX_AGE_HOURS = 24;
+
+export async function GET(req: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || req.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const maxAgeHours = Number(process.env.UNPAID_ORDER_MAX_AGE_HOURS) || DEFAULT_MAX_AGE_HOURS;
+
+    const orders = await closeUnpaidOrders({
+      createdAt: {
+        lt: subHours(new Date(), maxAgeHours)
+      }
+    }, "EXPIRED");
+
+    return NextResponse.json({ expired: orders.length });
+  } catch (error) {
+    console.log('[CRON_EXPIRE_ORDERS]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
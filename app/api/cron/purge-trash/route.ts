@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+
+import { purgeExpiredTrash } from '@/lib/trash';
+
+export async function GET(req: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || req.headers.get('Authorization') !== `Bearer ${cronSecret}`) {
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    const purged = await purgeExpiredTrash();
+
+    return NextResponse.json({ purged });
+  } catch (error) {
+    console.log('[CRON_PURGE_TRASH]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+};
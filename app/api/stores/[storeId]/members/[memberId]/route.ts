@@ -0,0 +1,151 @@
+import prismadb from '@/lib/prismadb';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { isStoreRole } from '@/lib/store-roles';
+
+// A store must always keep at least one owner who has accepted the invitation.
+const isLastOwner = async (storeId: string, memberId: string) => {
+  const owners = await prismadb.storeMember.findMany({
+    where: {
+      storeId,
+      role: 'OWNER',
+      userId: {
+        not: null
+      }
+    }
+  });
+
+  return owners.length === 1 && owners[0].id === memberId;
+};
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: { storeId: string, memberId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { role } = body;
+
+    if (!userId) {
+      return new NextResponse('Unauthenticated', { status: 401 });
+    }
+
+    if (!isStoreRole(role)) {
+      return new NextResponse('Valid role is required', { status: 400 });
+    }
+
+    if (!params.memberId) {
+      return new NextResponse('Member id is required', { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, 'members:manage');
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const existingMember = await prismadb.storeMember.findFirst({
+      where: {
+        id: params.memberId,
+        storeId: params.storeId,
+      }
+    });
+
+    if (!existingMember) {
+      return new NextResponse('Member not found', { status: 404 });
+    }
+
+    if (role !== 'OWNER' && await isLastOwner(params.storeId, params.memberId)) {
+      return new NextResponse('The last owner cannot be demoted', { status: 400 });
+    }
+
+    const member = await prismadb.storeMember.updateMany({
+      where: {
+        id: params.memberId,
+        storeId: params.storeId,
+      },
+      data: {
+        role,
+      },
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'STORE_MEMBER',
+      entityId: params.memberId,
+      action: 'UPDATE',
+      before: existingMember,
+      after: { role },
+    });
+
+    return NextResponse.json(member);
+  } catch (error) {
+    console.log('[MEMBER_PATCH]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: { storeId: string, memberId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthenticated', { status: 401 });
+    }
+
+    if (!params.memberId) {
+      return new NextResponse('Member id is required', { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, 'members:manage');
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const existingMember = await prismadb.storeMember.findFirst({
+      where: {
+        id: params.memberId,
+        storeId: params.storeId,
+      }
+    });
+
+    if (!existingMember) {
+      return new NextResponse('Member not found', { status: 404 });
+    }
+
+    if (await isLastOwner(params.storeId, params.memberId)) {
+      return new NextResponse('The last owner cannot be removed', { status: 400 });
+    }
+
+    const member = await prismadb.storeMember.deleteMany({
+      where: {
+        id: params.memberId,
+        storeId: params.storeId,
+      }
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'STORE_MEMBER',
+      entityId: params.memberId,
+      action: 'DELETE',
+      before: existingMember,
+    });
+
+    return NextResponse.json(member);
+  } catch (error) {
+    console.log('[MEMBER_DELETE]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+}
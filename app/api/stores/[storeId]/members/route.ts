@@ -0,0 +1,108 @@
+import prismadb from '@/lib/prismadb';
+import { auth } from '@clerk/nextjs';
+import { NextResponse } from 'next/server';
+
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import { isStoreRole } from '@/lib/store-roles';
+
+export async function GET(
+  req: Request,
+  { params }: { params: { storeId: string } }
+) {
+  try {
+    const { userId } = auth();
+
+    if (!userId) {
+      return new NextResponse('Unauthenticated', { status: 401 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId);
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const members = await prismadb.storeMember.findMany({
+      where: {
+        storeId: params.storeId,
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
+    return NextResponse.json(members);
+  } catch (error) {
+    console.log('[MEMBERS_GET]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: { storeId: string } }
+) {
+  try {
+    const { userId } = auth();
+    const body = await req.json();
+
+    const { email, role } = body;
+
+    if (!userId) {
+      return new NextResponse('Unauthenticated', { status: 401 });
+    }
+
+    if (!email) {
+      return new NextResponse('Email is required', { status: 400 });
+    }
+
+    if (!isStoreRole(role)) {
+      return new NextResponse('Valid role is required', { status: 400 });
+    }
+
+    const hasAccess = await canAccessStore(params.storeId, userId, 'members:manage');
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const normalizedEmail = String(email).trim().toLowerCase();
+
+    const existing = await prismadb.storeMember.findUnique({
+      where: {
+        storeId_email: {
+          storeId: params.storeId,
+          email: normalizedEmail,
+        }
+      }
+    });
+
+    if (existing) {
+      return new NextResponse('This email is already a member or invited', { status: 409 });
+    }
+
+    const member = await prismadb.storeMember.create({
+      data: {
+        storeId: params.storeId,
+        email: normalizedEmail,
+        role,
+        invitedBy: userId,
+      }
+    });
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'STORE_MEMBER',
+      entityId: member.id,
+      action: 'CREATE',
+      after: member,
+    });
+
+    return NextResponse.json(member);
+  } catch (error) {
+    console.log('[MEMBERS_POST]', error);
+    return new NextResponse('Internal error', { status: 500 });
+  }
+}
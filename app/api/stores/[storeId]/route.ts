@@ -2,6 +2,17 @@ import prismadb from '@/lib/prismadb';
 import { auth } from '@clerk/nextjs';
 import { NextResponse } from 'next/server';
 
+import { isSupportedCurrency, isSupportedLocale } from '@/lib/currency';
+import { canAccessStore } from '@/lib/store-access';
+import { recordAuditLog } from '@/lib/audit-log';
+import {
+  archiveStore,
+  cascadeDeleteStore,
+  getStoreDependencies,
+  isStoreDeletionMode,
+  UnpaidOrdersError
+} from '@/lib/store-deletion';
+
 export async function PATCH(
   req: Request,
   { params }: { params: { storeId: string } }
@@ -10,7 +21,7 @@ export async function PATCH(
     const { userId } = auth();
     const body = await req.json();
 
-    const { name } = body;
+    const { name, currency, locale } = body;
 
     if (!userId) {
       return new NextResponse('Unauthenticated', { status: 401 });
@@ -20,20 +31,51 @@ export async function PATCH(
       return new NextResponse('Name is required', { status: 400 });
     }
 
+    if (currency !== undefined && !isSupportedCurrency(currency)) {
+      return new NextResponse('Currency is not supported', { status: 400 });
+    }
+
+    if (locale !== undefined && !isSupportedLocale(locale)) {
+      return new NextResponse('Locale is not supported', { status: 400 });
+    }
+
     if (!params.storeId) {
       return new NextResponse('Store id is required', { status: 400 });
     }
 
+    const hasAccess = await canAccessStore(params.storeId, userId, 'store:update');
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const existingStore = await prismadb.store.findUnique({
+      where: {
+        id: params.storeId,
+      },
+    });
+
     const store = await prismadb.store.updateMany({
       where: {
         id: params.storeId,
-        userId,
       },
       data: {
         name,
+        currency,
+        locale,
       },
     });
 
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'STORE',
+      entityId: params.storeId,
+      action: 'UPDATE',
+      before: existingStore,
+      after: { name, currency, locale },
+    });
+
     return NextResponse.json(store);
   } catch (error) {
     console.log('[STORE_PATCH]', error);
@@ -47,24 +89,81 @@ export async function DELETE(
 ) {
   try {
     const { userId } = auth();
+    const body = await req.json();
+
+    const { mode, confirmName } = body;
 
     if (!userId) {
       return new NextResponse('Unauthenticated', { status: 401 });
     }
 
+    if (!isStoreDeletionMode(mode)) {
+      return new NextResponse('Mode must be cascade or archive', { status: 400 });
+    }
+
     if (!params.storeId) {
       return new NextResponse('Store id is required', { status: 400 });
     }
 
-    const store = await prismadb.store.deleteMany({
+    const hasAccess = await canAccessStore(params.storeId, userId, 'store:delete');
+
+    if (!hasAccess) {
+      return new NextResponse('Unauthorized', { status: 403 });
+    }
+
+    const existingStore = await prismadb.store.findUnique({
       where: {
         id: params.storeId,
-        userId
-      }
+      },
+    });
+
+    if (!existingStore) {
+      return new NextResponse('Store not found', { status: 404 });
+    }
+
+    if (confirmName !== existingStore.name) {
+      return new NextResponse('Store name does not match', { status: 400 });
+    }
+
+    const dependencies = await getStoreDependencies(params.storeId);
+
+    if (dependencies.unpaidOrders > 0) {
+      return new NextResponse('Store has unpaid orders in flight', { status: 409 });
+    }
+
+    if (mode === 'archive') {
+      const store = await archiveStore(params.storeId);
+
+      await recordAuditLog({
+        storeId: params.storeId,
+        userId,
+        entityType: 'STORE',
+        entityId: params.storeId,
+        action: 'UPDATE',
+        before: existingStore,
+        after: store,
+      });
+
+      return NextResponse.json(store);
+    }
+
+    const store = await cascadeDeleteStore(params.storeId);
+
+    await recordAuditLog({
+      storeId: params.storeId,
+      userId,
+      entityType: 'STORE',
+      entityId: params.storeId,
+      action: 'DELETE',
+      before: existingStore,
     });
 
     return NextResponse.json(store);
   } catch (error) {
+    if (error instanceof UnpaidOrdersError) {
+      return new NextResponse(error.message, { status: 409 });
+    }
+
     console.log('[STORE_DELETE]', error);
     return new NextResponse('Internal error', { status: 500 });
   }
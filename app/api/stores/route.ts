@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs';
+import { auth, currentUser } from '@clerk/nextjs';
 import prismadb from '@/lib/prismadb';
+import { recordAuditLog } from '@/lib/audit-log';
 
 export async function POST(req: Request) {
   try {
@@ -16,13 +17,32 @@ export async function POST(req: Request) {
       return new NextResponse('Name is required', { status: 400 });
     }
 
+    const user = await currentUser();
+
     const store = await prismadb.store.create({
       data: {
         name,
-        userId
+        userId,
+        members: {
+          create: {
+            userId,
+            email: user?.emailAddresses[0]?.emailAddress.toLowerCase() || '',
+            role: 'OWNER',
+            acceptedAt: new Date()
+          }
+        }
       }
     });
 
+    await recordAuditLog({
+      storeId: store.id,
+      userId,
+      entityType: 'STORE',
+      entityId: store.id,
+      action: 'CREATE',
+      after: store,
+    });
+
     return NextResponse.json(store);
   } catch (error) {
     console.log('[STORES_POST]', error);
@@ -3,7 +3,7 @@ import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 
 import { stripe } from "@/lib/stripe";
-import prismadb from "@/lib/prismadb";
+import { processStripeEvent } from "@/lib/webhook-events";
 
 export async function POST(req: Request) {
     const body = await req.text();
@@ -21,47 +21,16 @@ export async function POST(req: Request) {
         return new NextResponse(`Webhook Error: ${error.message}`, { status: 400 });
     }
 
-    const session = event.data.object as Stripe.Checkout.Session;
-    const address = session?.customer_details?.address;
-
-    const addressComponents = [
-        address?.line1,
-        address?.line2,
-        address?.city,
-        address?.state,
-        address?.postal_code,
-        address?.country,
-    ];
-
-    const addressString = addressComponents.filter((c) => c !== null).join(', ');
-
-    if (event.type === "checkout.session.completed") {
-        const order = await prismadb.order.update({
-            where: {
-                id: session?.metadata?.orderId,
-            },
-            data : {
-                isPaid: true,
-                address: addressString,
-                phone: session?.customer_details?.phone || ''
-            },
-            include: {
-                orderItems: true,
-            }
-        });
-
-        const productIds = order.orderItems.map((orderItem) => orderItem.productId);
-
-        await prismadb.product.updateMany({
-            where: {
-                id: {
-                    in: [...productIds]
-                }
-            },
-            data: {
-                isArchived: true
-            }
-        });
+    try {
+        const result = await processStripeEvent(event);
+
+        // A non-2xx answer makes Stripe retry once the attempt in flight has finished or gone stale.
+        if (result === "IN_PROGRESS") {
+            return new NextResponse("Event is being processed", { status: 409 });
+        }
+    } catch (error) {
+        console.log('[WEBHOOK_POST]', error);
+        return new NextResponse('Internal error', { status: 500 });
     }
 
     return new NextResponse(null, { status: 200 });
@@ -0,0 +1,87 @@
+'use client';
+
+import axios from 'axios';
+import { Trash } from 'lucide-react';
+import { useParams, useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+
+import { Button } from '@/components/ui/button';
+import { AlertModal } from '@/components/modals/alert-modals';
+
+interface BulkResponse {
+  succeeded: string[];
+  failed: { id: string, reason: string }[];
+}
+
+const failureLabels: Record<string, string> = {
+  NOT_FOUND: 'tidak ditemukan',
+  IN_USE: 'masih digunakan',
+  BELOW_MIN_PRICE: 'harganya akan kurang dari 1',
+};
+
+// Bulk endpoints apply what they can and list the rows they skipped.
+export const notifyBulkResult = ({ succeeded, failed }: BulkResponse) => {
+  if (succeeded.length > 0) {
+    toast.success(`${succeeded.length} data berhasil diproses.`);
+  }
+
+  if (failed.length > 0) {
+    const reasons = Array.from(new Set(failed.map((item) => failureLabels[item.reason] || item.reason)));
+
+    toast.error(`${failed.length} data gagal diproses karena ${reasons.join(' atau ')}.`);
+  }
+};
+
+interface BulkDeleteActionProps {
+  entity: string;
+  ids: string[];
+  onDone: () => void;
+}
+
+export const BulkDeleteAction: React.FC<BulkDeleteActionProps> = ({
+  entity,
+  ids,
+  onDone
+}) => {
+  const router = useRouter();
+  const params = useParams();
+
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+
+  const onDelete = async () => {
+    try {
+      setLoading(true);
+      const response = await axios.post(`/api/${params.storeId}/${entity}/bulk`, { action: 'delete', ids });
+      notifyBulkResult(response.data);
+      onDone();
+      router.refresh();
+    } catch (error) {
+      toast.error('Ada sesuatu yang salah');
+    } finally {
+      setLoading(false);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <AlertModal
+        isOpen={open}
+        onClose={() => setOpen(false)}
+        onConfirm={onDelete}
+        loading={loading}
+      />
+      <Button
+        disabled={loading}
+        variant="destructive"
+        size="sm"
+        onClick={() => setOpen(true)}
+      >
+        <Trash className="mr-2 h-4 w-4" />
+        Hapus
+      </Button>
+    </>
+  );
+};
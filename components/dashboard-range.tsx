@@ -0,0 +1,72 @@
+"use client";
+
+import { format } from "date-fns";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RevenueGranularity, revenueGranularities, revenueGranularityLabels } from "@/lib/dashboard-range";
+
+interface DashboardRangeProps {
+    from: Date;
+    to: Date;
+    granularity: RevenueGranularity;
+};
+
+export const DashboardRangePicker: React.FC<DashboardRangeProps> = ({
+    from,
+    to,
+    granularity
+}) => {
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+
+    const onChange = (values: Record<string, string>) => {
+        const query = new URLSearchParams(searchParams.toString());
+
+        for (const [key, value] of Object.entries(values)) {
+            if (value) {
+                query.set(key, value);
+            } else {
+                query.delete(key);
+            }
+        }
+
+        router.push(`${pathname}?${query.toString()}`);
+    };
+
+    return (
+        <div className="flex items-center gap-x-2">
+            <Input
+                type="date"
+                aria-label="Dari tanggal"
+                value={format(from, "yyyy-MM-dd")}
+                onChange={(event) => onChange({ from: event.target.value })}
+                className="w-40"
+            />
+            <Input
+                type="date"
+                aria-label="Sampai tanggal"
+                value={format(to, "yyyy-MM-dd")}
+                onChange={(event) => onChange({ to: event.target.value })}
+                className="w-40"
+            />
+            <Select
+                value={granularity}
+                onValueChange={(value) => onChange({ granularity: value })}
+            >
+                <SelectTrigger className="w-36">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {revenueGranularities.map((value) => (
+                        <SelectItem key={value} value={value}>
+                            {revenueGranularityLabels[value]}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
@@ -47,6 +47,21 @@ export function MainNav({
       label: 'Pesanan',
       active: pathname === `/${params.storeId}/orders`,
     },
+    {
+      href: `/${params.storeId}/prescriptions`,
+      label: 'Resep',
+      active: pathname === `/${params.storeId}/prescriptions`,
+    },
+    {
+      href: `/${params.storeId}/activity`,
+      label: 'Aktivitas',
+      active: pathname === `/${params.storeId}/activity`,
+    },
+    {
+      href: `/${params.storeId}/webhook-events`,
+      label: 'Webhook',
+      active: pathname === `/${params.storeId}/webhook-events`,
+    },
     {
       href: `/${params.storeId}/settings`,
       label: 'Setting',
@@ -14,7 +14,12 @@ const Navbar = async () => {
 
     const stores = await prismadb.store.findMany({
         where: {
-            userId,
+            archivedAt: null,
+            members: {
+                some: {
+                    userId,
+                },
+            },
         },
     });
 
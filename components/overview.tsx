@@ -4,11 +4,21 @@ import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis } from "recharts";
 
 interface OverviewProps {
     data: any[];
+    currency: string;
+    locale: string;
 };
 
 export const Overview: React.FC<OverviewProps> = ({
-    data
+    data,
+    currency,
+    locale
 }) => {
+    const tickFormatter = new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency,
+        notation: "compact"
+    });
+
     return (
         <ResponsiveContainer width="100%" height={350}>
             <BarChart data={data}>
@@ -24,7 +34,7 @@ export const Overview: React.FC<OverviewProps> = ({
                     fontSize={12}
                     tickLine={false}
                     axisLine={false}
-                    tickFormatter={(value) => `Rp ${value}`}
+                    tickFormatter={(value) => tickFormatter.format(value)}
                 />
                 <Bar dataKey="total" fill="#3498db" radius={[4, 4, 0, 0]} />
             </BarChart>
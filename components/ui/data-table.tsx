@@ -1,9 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download } from 'lucide-react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 
 import { Button } from './button';
+import { Checkbox } from './checkbox';
 import { Input } from './input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { TableFilter, TablePagination, pageSizeOptions } from '@/lib/data-table';
 
 import {
   ColumnDef,
@@ -12,6 +17,8 @@ import {
   getCoreRowModel,
   getFilteredRowModel,
   getPaginationRowModel,
+  RowSelectionState,
+  SortingState,
   useReactTable,
 } from '@tanstack/react-table';
 
@@ -24,45 +31,249 @@ import {
   TableRow,
 } from '@/components/ui/table';
 
+// Select items cannot carry an empty value, so this stands in for "no filter".
+const ALL = 'ALL';
+
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   data: TData[];
   searchKey: string,
+  filters?: TableFilter[];
+  // When set, the page has already paged, sorted and filtered `data` from the URL
+  // search params, and the table only writes its state back to the URL.
+  pagination?: TablePagination;
+  // Adds a selection column; rendered above the table while rows are selected.
+  renderBulkActions?: (ids: string[], clearSelection: () => void) => React.ReactNode;
+  // Server mode only: adds `from`/`to` date inputs to the filters.
+  dateRange?: boolean;
+  // Server mode only: a CSV download of every row matching the current filters.
+  exportUrl?: string;
+  // Server mode only: describes what the search matches.
+  searchPlaceholder?: string;
 }
 
 export function DataTable<TData, TValue>({
   columns,
   data,
   searchKey,
+  filters = [],
+  pagination,
+  renderBulkActions,
+  dateRange,
+  exportUrl,
+  searchPlaceholder = 'Cari',
 }: DataTableProps<TData, TValue>) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const isServerSide = !!pagination;
+
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>(
     []
   )
+  const [search, setSearch] = useState(searchParams.get('search') || '');
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+
+  // A refreshed page may no longer contain the selected rows.
+  useEffect(() => {
+    setRowSelection({});
+  }, [data]);
+
+  const tableColumns: ColumnDef<TData, TValue>[] = renderBulkActions ? [
+    {
+      id: 'select',
+      header: ({ table }) => (
+        <Checkbox
+          checked={table.getIsAllPageRowsSelected()}
+          onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+          aria-label="Pilih semua"
+        />
+      ),
+      cell: ({ row }) => (
+        <Checkbox
+          checked={row.getIsSelected()}
+          onCheckedChange={(value) => row.toggleSelected(!!value)}
+          aria-label="Pilih baris"
+        />
+      ),
+      enableSorting: false,
+    },
+    ...columns,
+  ] : columns;
+
+  const sort = searchParams.get('sort');
+  const sorting: SortingState = isServerSide && sort
+    ? [{ id: sort, desc: searchParams.get('order') === 'desc' }]
+    : [];
+
+  const onParamsChange = useCallback((values: Record<string, string | undefined>) => {
+    const query = new URLSearchParams(searchParams.toString());
+
+    for (const [key, value] of Object.entries(values)) {
+      if (value) {
+        query.set(key, value);
+      } else {
+        query.delete(key);
+      }
+    }
+
+    router.push(`${pathname}?${query.toString()}`);
+  }, [router, pathname, searchParams]);
+
+  const urlSearch = searchParams.get('search') || '';
+  const pushedSearch = useRef(urlSearch);
+
+  // Follows the URL when its search changes from outside the box, e.g. on back navigation,
+  // but not when it catches up with a search pushed while the user kept typing.
+  useEffect(() => {
+    if (urlSearch !== pushedSearch.current) {
+      pushedSearch.current = urlSearch;
+      setSearch(urlSearch);
+    }
+  }, [urlSearch]);
+
+  // Waits for a pause in typing before searching on the server.
+  useEffect(() => {
+    if (!isServerSide || search === urlSearch) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      pushedSearch.current = search;
+      onParamsChange({ search, page: undefined });
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [isServerSide, search, urlSearch, onParamsChange]);
 
   const table = useReactTable({
     data,
-    columns,
+    columns: tableColumns,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    onColumnFiltersChange: setColumnFilters,
-    getFilteredRowModel: getFilteredRowModel(),
-    state: {
-      columnFilters,
-    }
+    getRowId: (row) => (row as { id: string }).id,
+    enableRowSelection: !!renderBulkActions,
+    onRowSelectionChange: setRowSelection,
+    ...(isServerSide ? {
+      manualPagination: true,
+      manualSorting: true,
+      manualFiltering: true,
+      pageCount: pagination.pageCount,
+      // Only columns that opt in with `enableSorting: true` can be sorted on the server.
+      defaultColumn: {
+        enableSorting: false,
+      },
+      state: {
+        pagination: {
+          pageIndex: pagination.pageIndex,
+          pageSize: pagination.pageSize,
+        },
+        sorting,
+        rowSelection,
+      },
+    } : {
+      getPaginationRowModel: getPaginationRowModel(),
+      onColumnFiltersChange: setColumnFilters,
+      getFilteredRowModel: getFilteredRowModel(),
+      state: {
+        columnFilters,
+        rowSelection,
+      }
+    })
   });
 
+  const onSort = (id: string) => {
+    const current = sorting[0];
+
+    if (current?.id !== id) {
+      onParamsChange({ sort: id, order: 'asc', page: undefined });
+    } else if (!current.desc) {
+      onParamsChange({ sort: id, order: 'desc', page: undefined });
+    } else {
+      onParamsChange({ sort: undefined, order: undefined, page: undefined });
+    }
+  };
+
+  const onPageChange = (pageIndex: number) => {
+    onParamsChange({ page: pageIndex > 0 ? String(pageIndex + 1) : undefined });
+  };
+
   return (
     <div>
-      <div className="flex items-center py-4">
-        <Input
-          placeholder="Cari Nama / Label"
-          value={(table.getColumn(searchKey)?.getFilterValue() as string) ?? ""}
-          onChange={(event) =>
-            table.getColumn(searchKey)?.setFilterValue(event.target.value)
-          }
-          className="max-w-sm"
-        />
+      <div className="flex items-center gap-x-2 py-4">
+        {isServerSide ? (
+          <Input
+            placeholder={searchPlaceholder}
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            className="max-w-sm"
+          />
+        ) : (
+          <Input
+            placeholder="Cari Nama / Label"
+            value={(table.getColumn(searchKey)?.getFilterValue() as string) ?? ""}
+            onChange={(event) =>
+              table.getColumn(searchKey)?.setFilterValue(event.target.value)
+            }
+            className="max-w-sm"
+          />
+        )}
+        {filters.map((filter) => (
+          <Select
+            key={filter.key}
+            value={searchParams.get(filter.key) || ALL}
+            onValueChange={(value) => onParamsChange({
+              [filter.key]: value === ALL ? undefined : value,
+              page: undefined
+            })}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder={filter.label} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Semua {filter.label}</SelectItem>
+              {filter.options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+        {isServerSide && dateRange && (
+          <>
+            <Input
+              type="date"
+              aria-label="Dari tanggal"
+              value={searchParams.get('from') || ''}
+              onChange={(event) => onParamsChange({ from: event.target.value, page: undefined })}
+              className="w-40"
+            />
+            <Input
+              type="date"
+              aria-label="Sampai tanggal"
+              value={searchParams.get('to') || ''}
+              onChange={(event) => onParamsChange({ to: event.target.value, page: undefined })}
+              className="w-40"
+            />
+          </>
+        )}
+        {isServerSide && exportUrl && (
+          <Button variant="outline" className="ml-auto" asChild>
+            <a href={`${exportUrl}?${searchParams.toString()}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Ekspor CSV
+            </a>
+          </Button>
+        )}
       </div>
+      {renderBulkActions && Object.keys(rowSelection).length > 0 && (
+        <div className="flex items-center gap-x-2 pb-4">
+          <span className="text-sm text-muted-foreground">
+            {Object.keys(rowSelection).length} dipilih
+          </span>
+          {renderBulkActions(Object.keys(rowSelection), () => setRowSelection({}))}
+        </div>
+      )}
       <div className="rounded-md border">
         <Table>
           <TableHeader>
@@ -73,7 +284,25 @@ export function DataTable<TData, TValue>({
                     <TableHead key={header.id}>
                       {header.isPlaceholder
                         ? null
-                        : flexRender(
+                        : isServerSide && header.column.getCanSort() ? (
+                          <Button
+                            variant="ghost"
+                            className="-ml-4"
+                            onClick={() => onSort(header.column.id)}
+                          >
+                            {flexRender(
+                              header.column.columnDef.header,
+                              header.getContext()
+                            )}
+                            {header.column.getIsSorted() === 'asc' ? (
+                              <ArrowUp className="ml-2 h-4 w-4" />
+                            ) : header.column.getIsSorted() === 'desc' ? (
+                              <ArrowDown className="ml-2 h-4 w-4" />
+                            ) : (
+                              <ArrowUpDown className="ml-2 h-4 w-4" />
+                            )}
+                          </Button>
+                        ) : flexRender(
                             header.column.columnDef.header,
                             header.getContext()
                           )}
@@ -99,7 +328,7 @@ export function DataTable<TData, TValue>({
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={columns.length} className="h-24 text-center">
+                <TableCell colSpan={tableColumns.length} className="h-24 text-center">
                   Tidak ada hasil.
                 </TableCell>
               </TableRow>
@@ -108,10 +337,32 @@ export function DataTable<TData, TValue>({
         </Table>
       </div>
       <div className="flex items-center justify-end space-x-2 py-4">
+        {isServerSide && (
+          <>
+            <div className="flex-1 text-sm text-muted-foreground">
+              {pagination.total} data, halaman {pagination.pageIndex + 1} dari {pagination.pageCount}
+            </div>
+            <Select
+              value={String(pagination.pageSize)}
+              onValueChange={(value) => onParamsChange({ pageSize: value, page: undefined })}
+            >
+              <SelectTrigger className="h-8 w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSizeOptions.map((pageSize) => (
+                  <SelectItem key={pageSize} value={String(pageSize)}>
+                    {pageSize}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </>
+        )}
         <Button
           variant="outline"
           size="sm"
-          onClick={() => table.previousPage()}
+          onClick={() => isServerSide ? onPageChange(pagination.pageIndex - 1) : table.previousPage()}
           disabled={!table.getCanPreviousPage()}
         >
           Previous
@@ -119,7 +370,7 @@ export function DataTable<TData, TValue>({
         <Button
           variant="outline"
           size="sm"
-          onClick={() => table.nextPage()}
+          onClick={() => isServerSide ? onPageChange(pagination.pageIndex + 1) : table.nextPage()}
           disabled={!table.getCanNextPage()}
         >
           Next
@@ -0,0 +1,76 @@
+import { AuditAction, AuditEntity, Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+
+type Snapshot = Record<string, unknown> | null | undefined;
+
+// Bookkeeping columns that change on every write and only add noise to a diff.
+const ignoredFields = ["createdAt", "updatedAt", "updateAt"];
+
+// Decimals, dates and nested relations become plain JSON so they can be stored and compared.
+const toJson = (value: unknown): Prisma.JsonValue => {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+};
+
+const getChanges = (before: Snapshot, after: Snapshot) => {
+  if (!before || !after) {
+    return {
+      before: before ? toJson(before) : Prisma.DbNull,
+      after: after ? toJson(after) : Prisma.DbNull,
+    };
+  }
+
+  const changedBefore: Record<string, Prisma.JsonValue> = {};
+  const changedAfter: Record<string, Prisma.JsonValue> = {};
+
+  for (const key of Object.keys(after)) {
+    if (ignoredFields.includes(key) || after[key] === undefined) {
+      continue;
+    }
+
+    const oldValue = toJson(before[key]);
+    const newValue = toJson(after[key]);
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changedBefore[key] = oldValue;
+      changedAfter[key] = newValue;
+    }
+  }
+
+  return {
+    before: changedBefore,
+    after: changedAfter,
+  };
+};
+
+export const recordAuditLog = async ({
+  storeId,
+  userId,
+  entityType,
+  entityId,
+  action,
+  before,
+  after,
+}: {
+  storeId: string;
+  userId: string;
+  entityType: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  before?: Snapshot;
+  after?: Snapshot;
+}) => {
+  const changes = getChanges(before, after);
+
+  return prismadb.auditLog.create({
+    data: {
+      storeId,
+      userId,
+      entityType,
+      entityId,
+      action,
+      before: changes.before as Prisma.InputJsonValue | typeof Prisma.DbNull,
+      after: changes.after as Prisma.InputJsonValue | typeof Prisma.DbNull,
+    },
+  });
+};
@@ -0,0 +1,184 @@
+import { encodeBarcode } from "@/lib/barcodes";
+
+export interface BarcodeLabel {
+  name: string;
+  price: string;
+  barcode: string;
+}
+
+// A4 sheets of 3 x 8 labels of 70 x 37 mm, the common 24-up label stock. Lengths are in mm.
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const LABEL_WIDTH = 70;
+const LABEL_HEIGHT = 37;
+const COLUMNS = 3;
+const ROWS = 8;
+const MARGIN_TOP = (PAGE_HEIGHT - ROWS * LABEL_HEIGHT) / 2;
+const LABEL_PADDING = 4;
+
+// 0.33 mm is the nominal EAN module width; text sizes are in mm as well.
+const MODULE_WIDTH = 0.33;
+const BAR_HEIGHT = 15;
+const NAME_SIZE = 3;
+const DIGITS_SIZE = 2.8;
+const MAX_NAME_LENGTH = 36;
+
+// Digits are 0.556 em wide in both Helvetica and Arial, which lets the number be centred
+// without measuring text.
+const DIGIT_WIDTH = 0.556;
+
+const MM_TO_PT = 72 / 25.4;
+
+export const LABELS_PER_PAGE = COLUMNS * ROWS;
+
+type Shape =
+  | { type: "bar", x: number, y: number, width: number, height: number }
+  | { type: "text", x: number, y: number, size: number, text: string };
+
+const truncate = (text: string) => {
+  return text.length > MAX_NAME_LENGTH ? `${text.slice(0, MAX_NAME_LENGTH - 3)}...` : text;
+};
+
+// Shapes of one label whose top left corner is at (x, y); text is placed by its baseline.
+const layoutLabel = (label: BarcodeLabel, x: number, y: number): Shape[] => {
+  const modules = encodeBarcode(label.barcode);
+  const barsLeft = x + (LABEL_WIDTH - modules.length * MODULE_WIDTH) / 2;
+  const barsTop = y + 13;
+  const shapes: Shape[] = [
+    { type: "text", x: x + LABEL_PADDING, y: y + LABEL_PADDING + NAME_SIZE, size: NAME_SIZE, text: truncate(label.name) },
+    { type: "text", x: x + LABEL_PADDING, y: y + LABEL_PADDING + NAME_SIZE * 2.2, size: NAME_SIZE, text: label.price },
+    {
+      type: "text",
+      x: x + (LABEL_WIDTH - label.barcode.length * DIGIT_WIDTH * DIGITS_SIZE) / 2,
+      y: barsTop + BAR_HEIGHT + DIGITS_SIZE + 1,
+      size: DIGITS_SIZE,
+      text: label.barcode,
+    },
+  ];
+
+  // Adjacent bar modules are merged into one rectangle.
+  for (let start = 0; start < modules.length; start++) {
+    if (modules[start] !== "1") {
+      continue;
+    }
+
+    let end = start;
+
+    while (modules[end + 1] === "1") {
+      end++;
+    }
+
+    shapes.push({
+      type: "bar",
+      x: barsLeft + start * MODULE_WIDTH,
+      y: barsTop,
+      width: (end - start + 1) * MODULE_WIDTH,
+      height: BAR_HEIGHT,
+    });
+
+    start = end;
+  }
+
+  return shapes;
+};
+
+const layoutPages = (labels: BarcodeLabel[]) => {
+  const pages: Shape[][] = [];
+
+  for (let index = 0; index < labels.length; index += LABELS_PER_PAGE) {
+    pages.push(labels.slice(index, index + LABELS_PER_PAGE).flatMap((label, position) => layoutLabel(
+      label,
+      (position % COLUMNS) * LABEL_WIDTH,
+      MARGIN_TOP + Math.floor(position / COLUMNS) * LABEL_HEIGHT,
+    )));
+  }
+
+  return pages;
+};
+
+const round = (value: number) => Number(value.toFixed(3));
+
+const escapeXml = (text: string) => {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+};
+
+// One SVG in mm with the sheets stacked top to bottom.
+export const renderLabelsSvg = (labels: BarcodeLabel[]) => {
+  const pages = layoutPages(labels);
+  const height = pages.length * PAGE_HEIGHT;
+
+  const elements = pages.flatMap((shapes, pageIndex) => shapes.map((shape) => {
+    const y = round(shape.y + pageIndex * PAGE_HEIGHT);
+
+    return shape.type === "bar"
+      ? `<rect x="${round(shape.x)}" y="${y}" width="${round(shape.width)}" height="${round(shape.height)}"/>`
+      : `<text x="${round(shape.x)}" y="${y}" font-size="${shape.size}">${escapeXml(shape.text)}</text>`;
+  }));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${height}mm" viewBox="0 0 ${PAGE_WIDTH} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    ...elements,
+    "</svg>",
+  ].join("\n");
+};
+
+// PDF strings use the built-in Helvetica with WinAnsi encoding; characters outside Latin-1
+// (and the C1 range WinAnsi reassigns) print as "?".
+const escapePdfText = (text: string) => {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+};
+
+const renderPdfPage = (shapes: Shape[]) => {
+  return shapes.map((shape) => {
+    const x = round(shape.x * MM_TO_PT);
+
+    if (shape.type === "bar") {
+      const y = round((PAGE_HEIGHT - shape.y - shape.height) * MM_TO_PT);
+
+      return `${x} ${y} ${round(shape.width * MM_TO_PT)} ${round(shape.height * MM_TO_PT)} re f`;
+    }
+
+    const y = round((PAGE_HEIGHT - shape.y) * MM_TO_PT);
+
+    return `BT /F1 ${round(shape.size * MM_TO_PT)} Tf ${x} ${y} Td (${escapePdfText(shape.text)}) Tj ET`;
+  }).join("\n");
+};
+
+// A minimal PDF 1.4 file: a catalog, the page tree, the font and a page with its content
+// stream per sheet. Every character is a single Latin-1 byte, so string offsets are byte offsets.
+export const renderLabelsPdf = (labels: BarcodeLabel[]) => {
+  const pages = layoutPages(labels);
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    ...pages.flatMap((shapes, index) => {
+      const content = renderPdfPage(shapes);
+
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${round(PAGE_WIDTH * MM_TO_PT)} ${round(PAGE_HEIGHT * MM_TO_PT)}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      ];
+    }),
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xref = pdf.length;
+
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
@@ -0,0 +1,50 @@
+// EAN-8, UPC-A and EAN-13 barcodes: 8, 12 or 13 digits, the last one a check digit.
+const BARCODE_PATTERN = /^(\d{8}|\d{12}|\d{13})$/;
+
+// Bar patterns per digit, "1" being a bar. Right-hand digits use the complement of the
+// left-hand (L) code, and EAN-13 mixes in the mirrored (G) code to encode its first digit.
+const L_CODES = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const R_CODES = L_CODES.map((code) => code.replace(/./g, (bit) => (bit === "1" ? "0" : "1")));
+const G_CODES = R_CODES.map((code) => code.split("").reverse().join(""));
+const EAN13_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+// Scanners and people add spaces or dashes between digit groups; they are not part of the code.
+export const normalizeBarcode = (value: unknown) => {
+  return typeof value === "string" ? value.replace(/[\s-]+/g, "") : "";
+};
+
+export const normalizeSku = (value: unknown) => {
+  return typeof value === "string" ? value.trim() : "";
+};
+
+// Weights alternate 3 and 1 starting from the digit next to the check digit.
+const getCheckDigit = (digits: string) => {
+  const sum = digits.split("").reduce((total, digit, index) => (
+    total + Number(digit) * ((digits.length - index) % 2 === 1 ? 3 : 1)
+  ), 0);
+
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isBarcode = (value: string) => {
+  return BARCODE_PATTERN.test(value) && getCheckDigit(value.slice(0, -1)) === Number(value.slice(-1));
+};
+
+const encodeDigits = (digits: string, getCodes: (index: number) => string[]) => {
+  return digits.split("").map((digit, index) => getCodes(index)[Number(digit)]).join("");
+};
+
+// Returns the barcode's modules from guard to guard, "1" for a bar and "0" for a space.
+// UPC-A is printed as the EAN-13 with a leading zero, which gives the same bars.
+export const encodeBarcode = (barcode: string) => {
+  const code = barcode.length === 12 ? `0${barcode}` : barcode;
+
+  if (code.length === 8) {
+    return "101" + encodeDigits(code.slice(0, 4), () => L_CODES) + "01010" + encodeDigits(code.slice(4), () => R_CODES) + "101";
+  }
+
+  const parity = EAN13_PARITY[Number(code[0])];
+  const left = encodeDigits(code.slice(1, 7), (index) => (parity[index] === "G" ? G_CODES : L_CODES));
+
+  return "101" + left + "01010" + encodeDigits(code.slice(7), () => R_CODES) + "101";
+};
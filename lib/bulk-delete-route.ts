@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs";
+
+import { canAccessStore } from "@/lib/store-access";
+import { recordAuditLog } from "@/lib/audit-log";
+import { bulkDeleteItems } from "@/lib/catalog-bulk";
+import { TrashEntity, trashAuditEntities } from "@/lib/trash";
+
+// POST handler of the delete-only bulk endpoints of billboards, categories, colors and sizes.
+// Products have their own route because they support more actions.
+export const createBulkDeleteHandler = (entity: Exclude<TrashEntity, "products">) => {
+  return async function POST(
+    req: Request,
+    { params }: { params: { storeId: string } }
+  ) {
+    try {
+      const { userId } = auth();
+      const body = await req.json();
+
+      const { action, ids } = body;
+
+      if (!userId) {
+        return new NextResponse("Unauthenticated", { status: 401 });
+      }
+
+      if (action !== "delete") {
+        return new NextResponse("Unknown bulk action", { status: 400 });
+      }
+
+      if (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== "string")) {
+        return new NextResponse("Ids are required", { status: 400 });
+      }
+
+      if (!params.storeId) {
+        return new NextResponse("Store id is required", { status: 400 });
+      }
+
+      const hasAccess = await canAccessStore(params.storeId, userId, "catalog:write");
+
+      if (!hasAccess) {
+        return new NextResponse("Unauthorized", { status: 403 });
+      }
+
+      const result = await bulkDeleteItems(params.storeId, entity, ids);
+
+      for (const change of result.changes) {
+        await recordAuditLog({
+          storeId: params.storeId,
+          userId,
+          entityType: trashAuditEntities[entity],
+          entityId: change.id,
+          action: "DELETE",
+          before: change.before,
+        });
+      }
+
+      return NextResponse.json({ succeeded: result.succeeded, failed: result.failed });
+    } catch (error) {
+      console.log(`[${entity.toUpperCase()}_BULK]`, error);
+      return new NextResponse("Internal error", { status: 500 });
+    }
+  };
+};
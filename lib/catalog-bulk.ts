@@ -0,0 +1,212 @@
+import { Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { TrashEntity, countDependents } from "@/lib/trash";
+
+export type BulkFailureReason = "NOT_FOUND" | "IN_USE" | "BELOW_MIN_PRICE";
+
+// Matches the product form, which does not accept a product or variant price below 1.
+const MIN_PRICE = 1;
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: { id: string, reason: BulkFailureReason }[];
+}
+
+type Snapshot = Record<string, unknown> & { id: string };
+
+// Before/after snapshots of every row that changed, for the audit log.
+export interface BulkChange {
+  id: string;
+  before: Snapshot;
+  after?: Record<string, unknown>;
+}
+
+export const productBulkActions = [
+  "delete",
+  "archive",
+  "unarchive",
+  "feature",
+  "unfeature",
+  "setCategory",
+  "adjustPrice",
+] as const;
+
+export type ProductBulkAction = typeof productBulkActions[number];
+
+export const isProductBulkAction = (value: unknown): value is ProductBulkAction => {
+  return productBulkActions.includes(value as ProductBulkAction);
+};
+
+const findLiveItems = async (
+  tx: Prisma.TransactionClient,
+  storeId: string,
+  entity: TrashEntity,
+  ids: string[],
+): Promise<Snapshot[]> => {
+  const where = { id: { in: ids }, storeId, deletedAt: null };
+
+  switch (entity) {
+    case "products":
+      return tx.product.findMany({ where });
+    case "categories":
+      return tx.category.findMany({ where });
+    case "sizes":
+      return tx.size.findMany({ where });
+    case "colors":
+      return tx.color.findMany({ where });
+    case "billboards":
+      return tx.billboard.findMany({ where });
+  }
+};
+
+// Splits the requested ids into live rows of this store and NOT_FOUND failures.
+const partitionItems = async (
+  tx: Prisma.TransactionClient,
+  storeId: string,
+  entity: TrashEntity,
+  ids: string[],
+) => {
+  const items = await findLiveItems(tx, storeId, entity, ids);
+  const failed: BulkResult["failed"] = ids
+    .filter((id) => !items.some((item) => item.id === id))
+    .map((id) => ({ id, reason: "NOT_FOUND" }));
+
+  return { items, failed };
+};
+
+// Moves every row without live dependents to the trash; the rest are reported IN_USE.
+export const bulkDeleteItems = async (storeId: string, entity: TrashEntity, ids: string[]) => {
+  return prismadb.$transaction(async (tx) => {
+    const { items, failed } = await partitionItems(tx, storeId, entity, ids);
+    const deletable: Snapshot[] = [];
+
+    for (const item of items) {
+      if (await countDependents(entity, item.id, false, tx) > 0) {
+        failed.push({ id: item.id, reason: "IN_USE" });
+      } else {
+        deletable.push(item);
+      }
+    }
+
+    const where = { id: { in: deletable.map((item) => item.id) } };
+    const data = { deletedAt: new Date() };
+
+    switch (entity) {
+      case "products":
+        await tx.product.updateMany({ where, data });
+        break;
+      case "categories":
+        await tx.category.updateMany({ where, data });
+        break;
+      case "sizes":
+        await tx.size.updateMany({ where, data });
+        break;
+      case "colors":
+        await tx.color.updateMany({ where, data });
+        break;
+      case "billboards":
+        await tx.billboard.updateMany({ where, data });
+        break;
+    }
+
+    return {
+      succeeded: deletable.map((item) => item.id),
+      failed,
+      changes: deletable.map((item): BulkChange => ({ id: item.id, before: item })),
+    };
+  });
+};
+
+// Flag and category changes apply one value to every row; price adjustments scale each
+// row's own price by `percentage` (e.g. 10 or -15) and round to two decimals. A product whose
+// price or any variant price would drop below the minimum is left as is and reported.
+export const bulkUpdateProducts = async ({
+  storeId,
+  ids,
+  action,
+  categoryId,
+  percentage,
+}: {
+  storeId: string;
+  ids: string[];
+  action: Exclude<ProductBulkAction, "delete">;
+  categoryId?: string;
+  percentage?: number;
+}) => {
+  return prismadb.$transaction(async (tx) => {
+    const { items, failed } = await partitionItems(tx, storeId, "products", ids);
+    const changes: BulkChange[] = [];
+    const succeeded: string[] = [];
+
+    if (action === "adjustPrice") {
+      const factor = new Prisma.Decimal(100).plus(percentage || 0).div(100);
+
+      for (const item of items) {
+        const price = new Prisma.Decimal(item.price as Prisma.Decimal).mul(factor).toDecimalPlaces(2);
+
+        // Variant prices move by the same percentage, so the product keeps mirroring the lowest one.
+        const variants = await tx.productVariant.findMany({
+          where: {
+            productId: item.id,
+          },
+        });
+        const variantPrices = variants.map((variant) => variant.price.mul(factor).toDecimalPlaces(2));
+
+        if ([price, ...variantPrices].some((value) => value.lessThan(MIN_PRICE))) {
+          failed.push({ id: item.id, reason: "BELOW_MIN_PRICE" });
+          continue;
+        }
+
+        await tx.product.update({
+          where: {
+            id: item.id,
+          },
+          data: {
+            price,
+          },
+        });
+
+        for (let index = 0; index < variants.length; index++) {
+          await tx.productVariant.update({
+            where: {
+              id: variants[index].id,
+            },
+            data: {
+              price: variantPrices[index],
+            },
+          });
+        }
+
+        succeeded.push(item.id);
+        changes.push({ id: item.id, before: item, after: { price } });
+      }
+    } else {
+      const data: Prisma.ProductUncheckedUpdateManyInput = {
+        archive: { isArchived: true },
+        unarchive: { isArchived: false },
+        feature: { isFeatured: true },
+        unfeature: { isFeatured: false },
+        setCategory: { categoryId },
+      }[action];
+
+      await tx.product.updateMany({
+        where: {
+          id: {
+            in: items.map((item) => item.id),
+          },
+        },
+        data,
+      });
+
+      succeeded.push(...items.map((item) => item.id));
+      changes.push(...items.map((item) => ({ id: item.id, before: item, after: data })));
+    }
+
+    return {
+      succeeded,
+      failed,
+      changes,
+    };
+  });
+};
@@ -0,0 +1,108 @@
+// Excel saves "CSV UTF-8" with a byte order mark and, in locales that use a decimal
+// comma (such as id-ID), separates fields with semicolons instead of commas.
+const detectDelimiter = (firstLine: string) => {
+  const commas = firstLine.split(",").length;
+  const semicolons = firstLine.split(";").length;
+
+  return semicolons > commas ? ";" : ",";
+};
+
+// Parses RFC 4180 CSV: quoted fields may hold delimiters, doubled quotes and line breaks.
+export const parseCsv = (text: string) => {
+  const input = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] || "");
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records.filter((row) => row.some((value) => value.trim()));
+
+  return {
+    headers: headers.map((header) => header.trim()),
+    rows,
+  };
+};
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula, so customer-entered values such as
+// addresses and product names could execute in Excel.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes a field only when it holds a delimiter, quote or line break. Text that would be read
+// as a formula is prefixed with an apostrophe; numbers are written as they are.
+const escapeCsvValue = (value: CsvValue) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  const safeText = typeof value === "string" && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+
+  return /[",\r\n]/.test(safeText) ? `"${safeText.replace(/"/g, '""')}"` : safeText;
+};
+
+export const toCsvRow = (values: CsvValue[]) => {
+  return values.map(escapeCsvValue).join(",") + "\r\n";
+};
+
+// Streams the header and then each row as it is produced, so large exports are never
+// held in memory at once. The byte order mark makes Excel read the file as UTF-8.
+export const createCsvStream = (headers: string[], rows: AsyncIterable<CsvValue[]>) => {
+  const encoder = new TextEncoder();
+  const iterator = rows[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode("\uFEFF" + toCsvRow(headers)));
+    },
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(toCsvRow(value)));
+        }
+      } catch (error) {
+        console.log("[CSV_STREAM]", error);
+        controller.error(error);
+      }
+    },
+  });
+};
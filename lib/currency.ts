@@ -0,0 +1,49 @@
+export const currencies = [
+  { value: "IDR", label: "Rupiah (IDR)" },
+  { value: "USD", label: "US Dollar (USD)" },
+  { value: "SGD", label: "Singapore Dollar (SGD)" },
+  { value: "MYR", label: "Ringgit (MYR)" },
+  { value: "EUR", label: "Euro (EUR)" },
+  { value: "JPY", label: "Yen (JPY)" },
+];
+
+export const locales = [
+  { value: "id-ID", label: "Indonesia (id-ID)" },
+  { value: "en-US", label: "English US (en-US)" },
+  { value: "en-SG", label: "English Singapore (en-SG)" },
+  { value: "ms-MY", label: "Malaysia (ms-MY)" },
+  { value: "ja-JP", label: "Japan (ja-JP)" },
+];
+
+// Currencies Stripe charges in whole units, see https://stripe.com/docs/currencies#zero-decimal
+const zeroDecimalCurrencies = [
+  "BIF", "CLP", "DJF", "GNF", "JPY", "KMF", "KRW", "MGA",
+  "PYG", "RWF", "UGX", "VND", "VUV", "XAF", "XOF", "XPF",
+];
+
+const minorUnitFactor = (currency: string) => {
+  return zeroDecimalCurrencies.includes(currency.toUpperCase()) ? 1 : 100;
+};
+
+export const toMinorUnits = (amount: number, currency: string) => {
+  return Math.round(amount * minorUnitFactor(currency));
+};
+
+export const fromMinorUnits = (amount: number, currency: string) => {
+  return amount / minorUnitFactor(currency);
+};
+
+export const isSupportedCurrency = (currency: unknown): currency is string => {
+  return currencies.some((item) => item.value === currency);
+};
+
+export const isSupportedLocale = (locale: unknown): locale is string => {
+  return locales.some((item) => item.value === locale);
+};
+
+export const getFormatter = ({ currency, locale }: { currency: string, locale: string }) => {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency
+  });
+};
@@ -0,0 +1,93 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  endOfDay,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import { id } from "date-fns/locale";
+
+import { TableSearchParams, getDateRangeParam, getFilterParam } from "@/lib/data-table";
+
+export const revenueGranularities = ["day", "week", "month", "year"] as const;
+
+export type RevenueGranularity = typeof revenueGranularities[number];
+
+export const revenueGranularityLabels: Record<RevenueGranularity, string> = {
+  day: "Harian",
+  week: "Mingguan",
+  month: "Bulanan",
+  year: "Tahunan",
+};
+
+// Keeps the chart readable; a finer granularity over a longer range falls back to a coarser one.
+const MAX_BUCKETS = 120;
+
+export interface DashboardRange {
+  from: Date;
+  to: Date;
+  granularity: RevenueGranularity;
+}
+
+// Weeks start on Monday, matching Postgres' date_trunc('week', ...).
+const bucketUnits: Record<RevenueGranularity, {
+  start: (date: Date) => Date,
+  add: (date: Date, amount: number) => Date,
+  label: string,
+}> = {
+  day: { start: startOfDay, add: addDays, label: "d MMM" },
+  week: { start: (date) => startOfWeek(date, { weekStartsOn: 1 }), add: addWeeks, label: "d MMM" },
+  month: { start: startOfMonth, add: addMonths, label: "MMM yyyy" },
+  year: { start: startOfYear, add: addYears, label: "yyyy" },
+};
+
+const countBuckets = (range: DashboardRange) => {
+  const days = differenceInCalendarDays(range.to, range.from) + 1;
+
+  return {
+    day: days,
+    week: days / 7,
+    month: days / 30,
+    year: days / 365,
+  }[range.granularity];
+};
+
+// Defaults to this year by month, which is what the dashboard showed before ranges existed.
+export const getDashboardRange = (searchParams: TableSearchParams): DashboardRange => {
+  const { gte, lte } = getDateRangeParam(searchParams);
+  const to = lte || endOfDay(new Date());
+  const from = gte && gte <= to ? gte : startOfYear(to);
+
+  const range: DashboardRange = {
+    from,
+    to,
+    granularity: getFilterParam(searchParams, "granularity", revenueGranularities) || "month",
+  };
+
+  while (range.granularity !== "year" && countBuckets(range) > MAX_BUCKETS) {
+    range.granularity = revenueGranularities[revenueGranularities.indexOf(range.granularity) + 1];
+  }
+
+  return range;
+};
+
+// Every bucket in the range, including empty ones, keyed the same way as the revenue query.
+export const getRangeBuckets = (range: DashboardRange) => {
+  const unit = bucketUnits[range.granularity];
+  const buckets: { key: string, name: string }[] = [];
+
+  for (let date = unit.start(range.from); date <= range.to; date = unit.add(date, 1)) {
+    buckets.push({
+      key: format(date, "yyyy-MM-dd"),
+      name: format(date, unit.label, { locale: id }),
+    });
+  }
+
+  return buckets;
+};
@@ -0,0 +1,94 @@
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns";
+
+// URL search params shared by server-driven DataTables and the pages that resolve them.
+export const pageSizeOptions = [10, 20, 50, 100];
+
+const DEFAULT_PAGE_SIZE = 20;
+
+export type TableSearchParams = { [key: string]: string | string[] | undefined };
+
+export interface TableParams {
+  pageIndex: number;
+  pageSize: number;
+  skip: number;
+  take: number;
+  sort?: {
+    id: string;
+    desc: boolean;
+  };
+  search?: string;
+}
+
+export interface TablePagination {
+  pageIndex: number;
+  pageSize: number;
+  pageCount: number;
+  total: number;
+}
+
+export interface TableFilter {
+  key: string;
+  label: string;
+  options: { label: string, value: string }[];
+}
+
+export const getSearchParam = (searchParams: TableSearchParams, key: string) => {
+  const value = searchParams[key];
+
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+};
+
+// Returns the filter value only when it is one of the allowed options.
+export const getFilterParam = <T extends string>(
+  searchParams: TableSearchParams,
+  key: string,
+  allowed: readonly T[],
+) => {
+  const value = getSearchParam(searchParams, key);
+
+  return allowed.includes(value as T) ? value as T : undefined;
+};
+
+// `from` and `to` are inclusive calendar days (yyyy-MM-dd); invalid dates are ignored.
+export const getDateRangeParam = (searchParams: TableSearchParams) => {
+  const from = parseISO(getSearchParam(searchParams, "from") || "");
+  const to = parseISO(getSearchParam(searchParams, "to") || "");
+
+  return {
+    gte: isValid(from) ? startOfDay(from) : undefined,
+    lte: isValid(to) ? endOfDay(to) : undefined,
+  };
+};
+
+// Unknown sort columns fall back to no sort so the page's default ordering applies.
+export const parseTableParams = (
+  searchParams: TableSearchParams,
+  sortableColumns: string[],
+): TableParams => {
+  const page = Number(getSearchParam(searchParams, "page"));
+  const pageSize = Number(getSearchParam(searchParams, "pageSize"));
+  const sort = getSearchParam(searchParams, "sort");
+
+  const pageIndex = Number.isInteger(page) && page > 1 ? page - 1 : 0;
+  const size = pageSizeOptions.includes(pageSize) ? pageSize : DEFAULT_PAGE_SIZE;
+
+  return {
+    pageIndex,
+    pageSize: size,
+    skip: pageIndex * size,
+    take: size,
+    sort: sort && sortableColumns.includes(sort)
+      ? { id: sort, desc: getSearchParam(searchParams, "order") === "desc" }
+      : undefined,
+    search: getSearchParam(searchParams, "search")?.trim() || undefined,
+  };
+};
+
+export const getTablePagination = (params: TableParams, total: number): TablePagination => {
+  return {
+    pageIndex: params.pageIndex,
+    pageSize: params.pageSize,
+    pageCount: Math.max(Math.ceil(total / params.pageSize), 1),
+    total,
+  };
+};
@@ -0,0 +1,37 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+
+import { orderStatusLabels } from "@/lib/order-status";
+import {
+  TableSearchParams,
+  getDateRangeParam,
+  getFilterParam,
+  parseTableParams,
+} from "@/lib/data-table";
+
+export const orderStatuses = Object.keys(orderStatusLabels) as OrderStatus[];
+
+// Resolves the orders table's URL search params, shared by the orders page and its CSV export.
+export const getOrderQuery = (storeId: string, searchParams: TableSearchParams) => {
+  const tableParams = parseTableParams(searchParams, ["createdAt"]);
+  const status = getFilterParam(searchParams, "status", orderStatuses);
+  const payment = getFilterParam(searchParams, "payment", ["paid", "unpaid"]);
+
+  const where: Prisma.OrderWhereInput = {
+    storeId,
+    status,
+    isPaid: payment ? payment === "paid" : undefined,
+    createdAt: getDateRangeParam(searchParams),
+    OR: tableParams.search ? [
+      { phone: { contains: tableParams.search, mode: "insensitive" } },
+      { address: { contains: tableParams.search, mode: "insensitive" } },
+      { orderItems: { some: { name: { contains: tableParams.search, mode: "insensitive" } } } },
+    ] : undefined,
+  };
+
+  const orderBy: Prisma.OrderOrderByWithRelationInput[] = [
+    { createdAt: tableParams.sort?.desc === false ? "asc" : "desc" },
+    { id: "asc" },
+  ];
+
+  return { tableParams, where, orderBy };
+};
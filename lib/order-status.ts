@@ -0,0 +1,35 @@
+import { OrderStatus } from "@prisma/client";
+
+export const orderStatusLabels: Record<OrderStatus, string> = {
+  PENDING: "Menunggu Pembayaran",
+  PAID: "Dibayar",
+  PACKED: "Dikemas",
+  SHIPPED: "Dikirim",
+  DELIVERED: "Diterima",
+  CANCELLED: "Dibatalkan",
+  REFUNDED: "Dana Dikembalikan",
+  FAILED: "Pembayaran Gagal",
+  EXPIRED: "Kedaluwarsa",
+};
+
+// Statuses an order may move to from its current status.
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ["PAID", "CANCELLED", "FAILED", "EXPIRED"],
+  PAID: ["PACKED", "CANCELLED", "REFUNDED"],
+  PACKED: ["SHIPPED", "CANCELLED", "REFUNDED"],
+  SHIPPED: ["DELIVERED", "REFUNDED"],
+  DELIVERED: ["REFUNDED"],
+  CANCELLED: [],
+  REFUNDED: [],
+  // A failed attempt's checkout session is expired, but it can still be paid by hand.
+  FAILED: ["PAID", "CANCELLED", "EXPIRED"],
+  EXPIRED: [],
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus => {
+  return typeof value === "string" && value in orderStatusTransitions;
+};
+
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus) => {
+  return orderStatusTransitions[from].includes(to);
+};
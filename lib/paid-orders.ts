@@ -0,0 +1,182 @@
+import { OrderItem, OrderStatus, Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { stripe } from "@/lib/stripe";
+import { canTransitionOrderStatus } from "@/lib/order-status";
+import { allocateOrderBatches } from "@/lib/stock-batches";
+
+// Takes a paid order's items out of stock, variant by variant and batch by batch. Stock may
+// go below zero when concurrent orders oversell a product; it is logged rather than hidden.
+const takeOrderStock = async (tx: Prisma.TransactionClient, orderItems: OrderItem[]) => {
+  const productIds = orderItems.map((orderItem) => orderItem.productId);
+
+  for (const orderItem of orderItems) {
+    await tx.product.update({
+      where: {
+        id: orderItem.productId,
+      },
+      data: {
+        stock: {
+          decrement: orderItem.quantity,
+        },
+      },
+    });
+
+    if (orderItem.variantId) {
+      await tx.productVariant.update({
+        where: {
+          id: orderItem.variantId,
+        },
+        data: {
+          stock: {
+            decrement: orderItem.quantity,
+          },
+        },
+      });
+    }
+  }
+
+  await allocateOrderBatches(tx, orderItems);
+
+  const oversoldProducts = await tx.product.findMany({
+    where: {
+      id: {
+        in: productIds,
+      },
+      stock: {
+        lt: 0,
+      },
+    },
+    select: {
+      id: true,
+      stock: true,
+    },
+  });
+
+  if (oversoldProducts.length > 0) {
+    console.log("[ORDER_PAID_OVERSOLD]", oversoldProducts);
+  }
+};
+
+// Marks an unpaid order as paid and takes its stock in one transaction. An order that is
+// already paid, closed (e.g. CANCELLED or EXPIRED), or no longer in `fromStatus` when given
+// is left alone, so a retried webhook or a concurrent change never records the payment or
+// takes the stock twice.
+export const markOrderPaid = async (
+  orderId: string,
+  {
+    data,
+    fromStatus,
+    userId = null,
+  }: {
+    data?: Prisma.OrderUpdateManyMutationInput;
+    fromStatus?: OrderStatus;
+    userId?: string | null;
+  } = {},
+) => {
+  return prismadb.$transaction(async (tx) => {
+    const order = await tx.order.findUniqueOrThrow({
+      where: {
+        id: orderId,
+      },
+    });
+
+    if (
+      order.isPaid ||
+      !canTransitionOrderStatus(order.status, "PAID") ||
+      (fromStatus && order.status !== fromStatus)
+    ) {
+      return null;
+    }
+
+    const result = await tx.order.updateMany({
+      where: {
+        id: orderId,
+        isPaid: false,
+        status: order.status,
+      },
+      data: {
+        ...data,
+        isPaid: true,
+        status: "PAID",
+      },
+    });
+
+    if (result.count === 0) {
+      return null;
+    }
+
+    const paidOrder = await tx.order.update({
+      where: {
+        id: orderId,
+      },
+      data: {
+        statusHistory: {
+          create: {
+            fromStatus: order.status,
+            toStatus: "PAID",
+            userId,
+          },
+        },
+      },
+      include: {
+        orderItems: true,
+      },
+    });
+
+    await takeOrderStock(tx, paidOrder.orderItems);
+
+    return paidOrder;
+  }, {
+    timeout: 15000,
+  });
+};
+
+// Applies a completed checkout to its order. A payment that arrives after the order was paid
+// by hand is attached to it so the admin can refund it; one that arrives after the order was
+// closed is refunded right away instead of reopening the order.
+export const recordCheckoutPayment = async (
+  orderId: string,
+  data: Prisma.OrderUpdateManyMutationInput & { paymentIntentId?: string },
+) => {
+  const paidOrder = await markOrderPaid(orderId, { data });
+
+  if (paidOrder || !data.paymentIntentId) {
+    return;
+  }
+
+  const order = await prismadb.order.findUnique({
+    where: {
+      id: orderId,
+    },
+  });
+
+  if (!order || order.paymentIntentId === data.paymentIntentId) {
+    return;
+  }
+
+  if (order.isPaid) {
+    const result = await prismadb.order.updateMany({
+      where: {
+        id: orderId,
+        paymentIntentId: null,
+      },
+      data,
+    });
+
+    console.log("[ORDER_PAID_TWICE]", orderId, data.paymentIntentId, result.count > 0 ? "attached" : "unattached");
+    return;
+  }
+
+  // The idempotency key keeps a retried event from refunding the payment twice.
+  await stripe.refunds.create({
+    payment_intent: data.paymentIntentId,
+    metadata: {
+      orderId,
+    },
+  }, {
+    idempotencyKey: `late-payment-${data.paymentIntentId}`,
+  });
+
+  console.log("[ORDER_LATE_PAYMENT_REFUNDED]", orderId, order.status, data.paymentIntentId);
+};
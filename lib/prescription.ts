@@ -0,0 +1,24 @@
+import { OrderStatus, PrescriptionStatus } from "@prisma/client";
+
+export const prescriptionStatusLabels: Record<PrescriptionStatus, string> = {
+  PENDING: "Menunggu Review",
+  APPROVED: "Disetujui",
+  REJECTED: "Ditolak",
+};
+
+export const prescriptionStatuses = Object.keys(prescriptionStatusLabels) as PrescriptionStatus[];
+
+// Statuses that mean the order is being fulfilled; an order with a prescription only
+// reaches them once a pharmacist has approved it.
+const fulfillmentStatuses: OrderStatus[] = ["PACKED", "SHIPPED", "DELIVERED"];
+
+export const isPrescriptionDecision = (value: unknown): value is "APPROVED" | "REJECTED" => {
+  return value === "APPROVED" || value === "REJECTED";
+};
+
+export const isBlockedByPrescription = (
+  status: OrderStatus,
+  prescription: { status: PrescriptionStatus } | null,
+) => {
+  return fulfillmentStatuses.includes(status) && !!prescription && prescription.status !== "APPROVED";
+};
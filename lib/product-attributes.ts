@@ -0,0 +1,55 @@
+import { normalizeBarcode } from "@/lib/barcodes";
+
+export interface ActiveIngredientInput {
+  name: string;
+  strength: string;
+  position: number;
+}
+
+// BPOM registration numbers (NIE) start with a letter code, e.g. DKL1234567890A1 or TR123456789.
+const REGISTRATION_NUMBER_PATTERN = /^[A-Z]{2,5}\d[A-Z0-9]{5,}$/;
+
+// Stored without spaces and in upper case so searches match however the number was typed.
+export const normalizeRegistrationNumber = (value: unknown) => {
+  return typeof value === "string" ? value.replace(/\s+/g, "").toUpperCase() : "";
+};
+
+export const isRegistrationNumber = (value: string) => {
+  return REGISTRATION_NUMBER_PATTERN.test(value);
+};
+
+// Returns null unless every entry has a name and a strength such as "500 mg"; the list order is kept.
+export const parseActiveIngredients = (value: unknown): ActiveIngredientInput[] | null => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const ingredients = value.map((ingredient, position) => ({
+    name: typeof ingredient?.name === "string" ? ingredient.name.trim() : "",
+    strength: typeof ingredient?.strength === "string" ? ingredient.strength.trim() : "",
+    position,
+  }));
+
+  return ingredients.every((ingredient) => ingredient.name && ingredient.strength) ? ingredients : null;
+};
+
+// Text fields matched by the dashboard and storefront product searches. Barcodes only match
+// in full, as typed by a scanner, on the product or any of its variants.
+export const getProductSearchConditions = (query: string) => {
+  const contains = { contains: query, mode: "insensitive" as const };
+  const barcode = normalizeBarcode(query);
+
+  return [
+    { name: contains },
+    { manufacturer: contains },
+    { registrationNumber: { contains: normalizeRegistrationNumber(query) } },
+    { activeIngredients: { some: { name: contains } } },
+    { sku: contains },
+    { barcode },
+    { variants: { some: { OR: [{ sku: contains }, { barcode }] } } },
+  ];
+};
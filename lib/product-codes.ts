@@ -0,0 +1,73 @@
+import { Prisma } from "@prisma/client";
+
+export interface ProductCodes {
+  sku: string | null;
+  barcode: string | null;
+}
+
+const getRepeated = (values: string[]) => {
+  return values.filter((value, index) => values.indexOf(value) !== index);
+};
+
+// SKUs and barcodes are unique per store across products and variants, trashed ones included
+// so a restored product never collides. Returns the codes that are repeated in `entries` or
+// already used outside the product being saved. Callers hold the store lock (see lockStore)
+// until the codes are written, so two saves cannot both claim the same code.
+export const getTakenProductCodes = async (
+  tx: Prisma.TransactionClient,
+  storeId: string,
+  entries: ProductCodes[],
+  productId?: string,
+) => {
+  const skus = entries.map((entry) => entry.sku).filter((sku): sku is string => !!sku);
+  const barcodes = entries.map((entry) => entry.barcode).filter((barcode): barcode is string => !!barcode);
+
+  if (skus.length === 0 && barcodes.length === 0) {
+    return [];
+  }
+
+  const codeConditions = [
+    { sku: { in: skus } },
+    { barcode: { in: barcodes } },
+  ];
+
+  const [products, variants] = await Promise.all([
+    tx.product.findMany({
+      where: {
+        storeId,
+        id: {
+          not: productId,
+        },
+        OR: codeConditions,
+      },
+      select: {
+        sku: true,
+        barcode: true,
+      },
+    }),
+    tx.productVariant.findMany({
+      where: {
+        product: {
+          storeId,
+        },
+        productId: {
+          not: productId,
+        },
+        OR: codeConditions,
+      },
+      select: {
+        sku: true,
+        barcode: true,
+      },
+    }),
+  ]);
+
+  const existing = [...products, ...variants];
+
+  return Array.from(new Set([
+    ...getRepeated(skus),
+    ...getRepeated(barcodes),
+    ...skus.filter((sku) => existing.some((entry) => entry.sku === sku)),
+    ...barcodes.filter((barcode) => existing.some((entry) => entry.barcode === barcode)),
+  ]));
+};
@@ -0,0 +1,233 @@
+import { Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { isHttpUrl } from "@/lib/utils";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Colors double as medicine types; imported ones get a neutral swatch that can be edited later.
+const DEFAULT_COLOR_VALUE = "#000000";
+
+// Header names matched case-insensitively to pre-fill the column mapping.
+export const productImportFields = [
+  { key: "name", label: "Nama", required: true, aliases: ["name", "nama", "nama produk"] },
+  { key: "price", label: "Harga", required: true, aliases: ["price", "harga"] },
+  { key: "stock", label: "Stok", required: false, aliases: ["stock", "stok"] },
+  { key: "category", label: "Kategori", required: true, aliases: ["category", "kategori"] },
+  { key: "size", label: "Bentuk Obat", required: true, aliases: ["size", "bentuk", "bentuk obat", "dosage form"] },
+  { key: "color", label: "Tipe Obat", required: true, aliases: ["color", "tipe", "tipe obat", "medicine type"] },
+  { key: "images", label: "URL Gambar", required: true, aliases: ["images", "image", "gambar", "url gambar", "image urls"] },
+] as const;
+
+export type ProductImportField = typeof productImportFields[number]["key"];
+
+export type ProductImportRow = Partial<Record<ProductImportField, string>>;
+
+export interface ProductImportRowReport {
+  line: number;
+  name: string;
+  errors: string[];
+}
+
+export interface ProductImportReport {
+  rows: ProductImportRowReport[];
+  newCategories: string[];
+  newSizes: string[];
+  newColors: string[];
+  valid: boolean;
+}
+
+const normalizeName = (value: string) => value.trim().toLowerCase();
+
+// Prices are plain numbers; a lone decimal comma is accepted, thousands separators are not.
+// A separator followed by exactly three digits ("12.500") is an Indonesian thousands group
+// rather than decimals, so it is rejected instead of importing as 12.5.
+const parseNumber = (value: string) => {
+  const trimmed = value.trim();
+
+  if (/[.,]\d{3}$/.test(trimmed)) {
+    return NaN;
+  }
+
+  const normalized = trimmed.includes(".") ? trimmed : trimmed.replace(",", ".");
+
+  return normalized === "" ? NaN : Number(normalized);
+};
+
+const parseRow = (row: ProductImportRow) => {
+  const errors: string[] = [];
+  const name = row.name?.trim() || "";
+  const price = parseNumber(row.price || "");
+  const stock = row.stock?.trim() ? parseNumber(row.stock) : 0;
+  const category = row.category?.trim() || "";
+  const size = row.size?.trim() || "";
+  const color = row.color?.trim() || "";
+  const images = (row.images || "").split(/[|\s]+/).filter(Boolean);
+
+  if (!name) {
+    errors.push("Nama wajib diisi");
+  }
+
+  if (isNaN(price) || price <= 0) {
+    errors.push("Harga harus berupa angka lebih dari 0 tanpa pemisah ribuan");
+  }
+
+  if (!Number.isInteger(stock) || stock < 0) {
+    errors.push("Stok harus berupa bilangan bulat 0 atau lebih");
+  }
+
+  if (!category) {
+    errors.push("Kategori wajib diisi");
+  }
+
+  if (!size) {
+    errors.push("Bentuk obat wajib diisi");
+  }
+
+  if (!color) {
+    errors.push("Tipe obat wajib diisi");
+  }
+
+  if (images.length === 0) {
+    errors.push("Minimal satu URL gambar");
+  } else if (images.some((image) => !isHttpUrl(image))) {
+    errors.push("URL gambar tidak valid");
+  }
+
+  return { name, price, stock, category, size, color, images, errors };
+};
+
+const getCatalog = async (db: Prisma.TransactionClient, storeId: string) => {
+  const where = { storeId, deletedAt: null };
+
+  const [categories, sizes, colors] = await Promise.all([
+    db.category.findMany({ where }),
+    db.size.findMany({ where }),
+    db.color.findMany({ where }),
+  ]);
+
+  return {
+    categories: new Map(categories.map((item) => [normalizeName(item.name), item.id])),
+    sizes: new Map(sizes.map((item) => [normalizeName(item.name), item.id])),
+    colors: new Map(colors.map((item) => [normalizeName(item.name), item.id])),
+  };
+};
+
+// Names not yet in the catalog, deduplicated case-insensitively; the first spelling wins.
+const getMissingNames = (values: string[], existing: Map<string, string>) => {
+  const missing = new Map<string, string>();
+
+  for (const value of values) {
+    const key = normalizeName(value);
+
+    if (value && !existing.has(key) && !missing.has(key)) {
+      missing.set(key, value);
+    }
+  }
+
+  return Array.from(missing.values());
+};
+
+// Dry run: reports every row's problems and the catalog entries the import would create.
+// `line` is the spreadsheet line number, counting the header as line 1.
+export const validateProductImport = async (
+  storeId: string,
+  rows: ProductImportRow[],
+  billboardId?: string,
+): Promise<ProductImportReport> => {
+  const catalog = await getCatalog(prismadb, storeId);
+  const parsedRows = rows.map(parseRow);
+
+  const newCategories = getMissingNames(parsedRows.map((row) => row.category), catalog.categories);
+  const newSizes = getMissingNames(parsedRows.map((row) => row.size), catalog.sizes);
+  const newColors = getMissingNames(parsedRows.map((row) => row.color), catalog.colors);
+
+  const report = parsedRows.map((row, index) => {
+    const errors = [...row.errors];
+
+    if (row.category && !catalog.categories.has(normalizeName(row.category)) && !billboardId) {
+      errors.push("Pilih papan iklan untuk kategori baru");
+    }
+
+    return { line: index + 2, name: row.name, errors };
+  });
+
+  return {
+    rows: report,
+    newCategories,
+    newSizes,
+    newColors,
+    valid: report.every((row) => row.errors.length === 0),
+  };
+};
+
+// Creates the missing categories, sizes and colors and then every product in one
+// transaction, so a failure part-way leaves the catalog untouched.
+export const commitProductImport = async (
+  storeId: string,
+  rows: ProductImportRow[],
+  billboardId?: string,
+) => {
+  return prismadb.$transaction(async (tx) => {
+    const catalog = await getCatalog(tx, storeId);
+    const parsedRows = rows.map(parseRow);
+
+    const categories = [];
+    const sizes = [];
+    const colors = [];
+
+    for (const name of getMissingNames(parsedRows.map((row) => row.category), catalog.categories)) {
+      const category = await tx.category.create({
+        data: { storeId, name, billboardId: billboardId! },
+      });
+
+      catalog.categories.set(normalizeName(name), category.id);
+      categories.push(category);
+    }
+
+    for (const name of getMissingNames(parsedRows.map((row) => row.size), catalog.sizes)) {
+      const size = await tx.size.create({
+        data: { storeId, name, value: name },
+      });
+
+      catalog.sizes.set(normalizeName(name), size.id);
+      sizes.push(size);
+    }
+
+    for (const name of getMissingNames(parsedRows.map((row) => row.color), catalog.colors)) {
+      const color = await tx.color.create({
+        data: { storeId, name, value: DEFAULT_COLOR_VALUE },
+      });
+
+      catalog.colors.set(normalizeName(name), color.id);
+      colors.push(color);
+    }
+
+    const products = [];
+
+    for (const row of parsedRows) {
+      const product = await tx.product.create({
+        data: {
+          storeId,
+          name: row.name,
+          price: row.price,
+          stock: row.stock,
+          categoryId: catalog.categories.get(normalizeName(row.category))!,
+          sizeId: catalog.sizes.get(normalizeName(row.size))!,
+          colorId: catalog.colors.get(normalizeName(row.color))!,
+          images: {
+            createMany: {
+              data: row.images.map((url) => ({ url })),
+            },
+          },
+        },
+      });
+
+      products.push({ ...product, images: row.images });
+    }
+
+    return { categories, sizes, colors, products };
+  }, {
+    timeout: 30000,
+  });
+};
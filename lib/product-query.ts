@@ -0,0 +1,36 @@
+import { Prisma } from "@prisma/client";
+
+import {
+  TableSearchParams,
+  getDateRangeParam,
+  getFilterParam,
+  getSearchParam,
+  parseTableParams,
+} from "@/lib/data-table";
+import { getProductSearchConditions } from "@/lib/product-attributes";
+
+// Resolves the products table's URL search params, shared by the products page and its CSV export.
+export const getProductQuery = (storeId: string, searchParams: TableSearchParams) => {
+  const tableParams = parseTableParams(searchParams, ["name", "price", "stock", "createdAt"]);
+  const archived = getFilterParam(searchParams, "archived", ["true", "false"]);
+  const featured = getFilterParam(searchParams, "featured", ["true", "false"]);
+
+  const where: Prisma.ProductWhereInput = {
+    storeId,
+    deletedAt: null,
+    isArchived: archived ? archived === "true" : undefined,
+    isFeatured: featured ? featured === "true" : undefined,
+    categoryId: getSearchParam(searchParams, "categoryId"),
+    createdAt: getDateRangeParam(searchParams),
+    OR: tableParams.search ? getProductSearchConditions(tableParams.search) : undefined,
+  };
+
+  const orderBy: Prisma.ProductOrderByWithRelationInput[] = [
+    tableParams.sort
+      ? { [tableParams.sort.id]: tableParams.sort.desc ? "desc" : "asc" }
+      : { createdAt: "desc" },
+    { id: "asc" },
+  ];
+
+  return { tableParams, where, orderBy };
+};
@@ -0,0 +1,157 @@
+import { Prisma } from "@prisma/client";
+
+import { isBarcode, normalizeBarcode, normalizeSku } from "@/lib/barcodes";
+
+export interface ProductVariantInput {
+  sizeId: string;
+  colorId: string;
+  price: number;
+  stock: number;
+  sku: string | null;
+  barcode: string | null;
+  position: number;
+}
+
+// Returns null unless every variant has a size, a color, a positive price, a whole stock and
+// either no barcode or a valid one, and no size and color combination appears twice. Stock
+// below zero is checked against the saved variants with `hasNewNegativeStock`.
+export const parseProductVariants = (value: unknown): ProductVariantInput[] | null => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const variants = value.map((variant, position) => ({
+    sizeId: typeof variant?.sizeId === "string" ? variant.sizeId : "",
+    colorId: typeof variant?.colorId === "string" ? variant.colorId : "",
+    price: Number(variant?.price),
+    stock: Number(variant?.stock ?? 0),
+    sku: normalizeSku(variant?.sku) || null,
+    barcode: normalizeBarcode(variant?.barcode) || null,
+    position,
+  }));
+
+  const combinations = new Set(variants.map((variant) => `${variant.sizeId}:${variant.colorId}`));
+
+  const isValid = combinations.size === variants.length && variants.every((variant) => (
+    variant.sizeId &&
+    variant.colorId &&
+    variant.price > 0 &&
+    Number.isInteger(variant.stock) &&
+    (!variant.barcode || isBarcode(variant.barcode))
+  ));
+
+  return isValid ? variants : null;
+};
+
+// Paid orders may oversell a variant below zero. Such a variant can be saved with the stock it
+// already has, but no variant may be given a new negative stock.
+export const hasNewNegativeStock = (
+  variants: ProductVariantInput[],
+  savedVariants: { sizeId: string, colorId: string, stock: number }[] = [],
+) => {
+  return variants.some((variant) => variant.stock < 0 && !savedVariants.some((saved) => (
+    saved.sizeId === variant.sizeId && saved.colorId === variant.colorId && saved.stock === variant.stock
+  )));
+};
+
+// The product row mirrors its variants so listings, filters and sorting keep working on it:
+// the first variant's size and color and the lowest price.
+export const getVariantSummary = (variants: ProductVariantInput[]) => {
+  return {
+    sizeId: variants[0].sizeId,
+    colorId: variants[0].colorId,
+    price: Math.min(...variants.map((variant) => variant.price)),
+  };
+};
+
+export const getVariantLabel = (variant: { size: { name: string }, color: { name: string } }) => {
+  return `${variant.size.name} / ${variant.color.name}`;
+};
+
+// Matches variants by size and color so existing ones keep their id, and with it their
+// batches and the order lines that reference them. Stock of variants tracked by batch
+// is left to the batches.
+export const saveProductVariants = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variants: ProductVariantInput[],
+) => {
+  const existingVariants = await tx.productVariant.findMany({
+    where: {
+      productId,
+    },
+    include: {
+      _count: {
+        select: {
+          batches: true,
+        },
+      },
+    },
+  });
+
+  const removedIds = existingVariants
+    .filter((existing) => !variants.some((variant) => (
+      variant.sizeId === existing.sizeId && variant.colorId === existing.colorId
+    )))
+    .map((existing) => existing.id);
+
+  await tx.productVariant.deleteMany({
+    where: {
+      id: {
+        in: removedIds,
+      },
+    },
+  });
+
+  for (const variant of variants) {
+    const existing = existingVariants.find((item) => (
+      item.sizeId === variant.sizeId && item.colorId === variant.colorId
+    ));
+
+    if (existing) {
+      await tx.productVariant.update({
+        where: {
+          id: existing.id,
+        },
+        data: {
+          price: variant.price,
+          stock: existing._count.batches > 0 ? undefined : variant.stock,
+          sku: variant.sku,
+          barcode: variant.barcode,
+          position: variant.position,
+        },
+      });
+    } else {
+      await tx.productVariant.create({
+        data: {
+          productId,
+          ...variant,
+        },
+      });
+    }
+  }
+};
+
+// Variants that would be removed but still hold stock batches.
+export const getRemovedBatchedVariants = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variants: ProductVariantInput[],
+) => {
+  const batchedVariants = await tx.productVariant.findMany({
+    where: {
+      productId,
+      batches: {
+        some: {},
+      },
+    },
+  });
+
+  return batchedVariants.filter((existing) => !variants.some((variant) => (
+    variant.sizeId === existing.sizeId && variant.colorId === existing.colorId
+  )));
+};
@@ -0,0 +1,382 @@
+import Stripe from "stripe";
+import { Order, OrderItem, OrderStatus, Prisma, Refund } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { stripe } from "@/lib/stripe";
+import { toMinorUnits } from "@/lib/currency";
+import { returnOrderItemBatches } from "@/lib/stock-batches";
+import { canTransitionOrderStatus } from "@/lib/order-status";
+
+export interface RefundLine {
+  orderItemId: string;
+  quantity: number;
+}
+
+const remainingQuantity = (item: OrderItem) => item.quantity - item.refundedQuantity;
+
+export const getRefundableLines = (orderItems: OrderItem[]): RefundLine[] => {
+  return orderItems
+    .filter((item) => remainingQuantity(item) > 0)
+    .map((item) => ({ orderItemId: item.id, quantity: remainingQuantity(item) }));
+};
+
+export const getRefundAmount = (orderItems: OrderItem[], lines: RefundLine[]) => {
+  return lines.reduce((total, line) => {
+    const item = orderItems.find((orderItem) => orderItem.id === line.orderItemId);
+
+    return total + (item ? item.price.toNumber() * line.quantity : 0);
+  }, 0);
+};
+
+// Puts refunded units back on the shelf and closes the order once every line is refunded,
+// as far as the order's status allows.
+const restoreOrderItems = async (
+  tx: Prisma.TransactionClient,
+  order: { id: string, status: OrderStatus, orderItems: OrderItem[] },
+  lines: RefundLine[],
+  finalStatus: OrderStatus,
+  userId: string | null,
+) => {
+  for (const line of lines) {
+    const item = order.orderItems.find((orderItem) => orderItem.id === line.orderItemId);
+    const quantity = item ? Math.min(line.quantity, remainingQuantity(item)) : 0;
+
+    if (!item || quantity <= 0) {
+      continue;
+    }
+
+    await tx.product.update({
+      where: {
+        id: item.productId,
+      },
+      data: {
+        stock: {
+          increment: quantity,
+        },
+      },
+    });
+
+    if (item.variantId) {
+      await tx.productVariant.update({
+        where: {
+          id: item.variantId,
+        },
+        data: {
+          stock: {
+            increment: quantity,
+          },
+        },
+      });
+    }
+
+    await returnOrderItemBatches(tx, item, quantity);
+
+    await tx.orderItem.update({
+      where: {
+        id: item.id,
+      },
+      data: {
+        refundedQuantity: {
+          increment: quantity,
+        },
+      },
+    });
+
+    item.refundedQuantity += quantity;
+  }
+
+  const fullyRefunded = order.orderItems.every((item) => remainingQuantity(item) <= 0);
+
+  if (fullyRefunded && canTransitionOrderStatus(order.status, finalStatus)) {
+    await tx.order.update({
+      where: {
+        id: order.id,
+      },
+      data: {
+        status: finalStatus,
+        statusHistory: {
+          create: {
+            fromStatus: order.status,
+            toStatus: finalStatus,
+            userId,
+          },
+        },
+      },
+    });
+  }
+};
+
+// Units of each order item held by refunds Stripe has not confirmed yet.
+const getPendingQuantities = (refunds: Refund[]) => {
+  const quantities: Record<string, number> = {};
+
+  for (const refund of refunds) {
+    for (const line of refund.lines as unknown as RefundLine[]) {
+      quantities[line.orderItemId] = (quantities[line.orderItemId] || 0) + line.quantity;
+    }
+  }
+
+  return quantities;
+};
+
+// Records the refund before Stripe is called. Touching the order first takes its row lock,
+// so concurrent requests see each other's pending units and cannot refund them twice.
+const createPendingRefund = async ({
+  orderId,
+  lines,
+  reason,
+  cancel,
+  userId,
+}: {
+  orderId: string;
+  lines: RefundLine[];
+  reason?: string;
+  cancel?: boolean;
+  userId: string;
+}) => {
+  return prismadb.$transaction(async (tx) => {
+    const order = await tx.order.update({
+      where: {
+        id: orderId,
+      },
+      data: {
+        refundReason: reason || undefined,
+      },
+      include: {
+        orderItems: true,
+        refunds: {
+          where: {
+            status: "PENDING",
+          },
+        },
+      },
+    });
+
+    const pendingQuantities = getPendingQuantities(order.refunds);
+
+    const refundableLines = lines
+      .map((line) => {
+        const item = order.orderItems.find((orderItem) => orderItem.id === line.orderItemId);
+        const available = item ? remainingQuantity(item) - (pendingQuantities[item.id] || 0) : 0;
+
+        return {
+          orderItemId: line.orderItemId,
+          quantity: Math.min(line.quantity, available),
+        };
+      })
+      .filter((line) => line.quantity > 0);
+
+    const amount = getRefundAmount(order.orderItems, refundableLines);
+
+    if (amount <= 0) {
+      throw new Error("Nothing left to refund");
+    }
+
+    return tx.refund.create({
+      data: {
+        orderId,
+        amount,
+        lines: refundableLines as unknown as Prisma.InputJsonValue,
+        reason: reason || "",
+        cancel: !!cancel,
+        userId,
+      },
+      include: {
+        order: true,
+      },
+    });
+  });
+};
+
+// Applies a refund Stripe has accepted to the order and its stock. Only the caller that
+// claims the pending row applies it, so the admin request and the webhook can both try.
+const applyRefund = async (refundId: string, stripeRefundId: string) => {
+  return prismadb.$transaction(async (tx) => {
+    const claimed = await tx.refund.updateMany({
+      where: {
+        id: refundId,
+        status: "PENDING",
+      },
+      data: {
+        status: "SUCCEEDED",
+        stripeRefundId,
+      },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const refund = await tx.refund.findUniqueOrThrow({
+      where: {
+        id: refundId,
+      },
+    });
+
+    const order = await tx.order.update({
+      where: {
+        id: refund.orderId,
+      },
+      data: {
+        refundedAmount: {
+          increment: refund.amount,
+        },
+      },
+      include: {
+        orderItems: true,
+      },
+    });
+
+    const finalStatus = refund.cancel && canTransitionOrderStatus(order.status, "CANCELLED") ? "CANCELLED" : "REFUNDED";
+
+    await restoreOrderItems(tx, order, refund.lines as unknown as RefundLine[], finalStatus, refund.userId);
+  }, {
+    timeout: 15000,
+  });
+};
+
+// Stripe answers a repeated request with the same idempotency key with the original refund,
+// so a pending refund can be submitted again without paying out twice.
+const submitRefund = async (refund: Refund & { order: Order }) => {
+  let stripeRefund: Stripe.Refund;
+
+  try {
+    stripeRefund = await stripe.refunds.create({
+      payment_intent: refund.order.paymentIntentId!,
+      amount: toMinorUnits(refund.amount.toNumber(), refund.order.currency),
+      metadata: {
+        orderId: refund.orderId,
+        refundId: refund.id,
+        reason: refund.reason,
+      },
+    }, {
+      idempotencyKey: `refund-${refund.id}`,
+    });
+  } catch (error) {
+    // A rejected refund paid nothing out. Without an answer from Stripe the outcome is
+    // unknown, so the refund stays pending for the webhook or the next refund to settle.
+    const isUnknownOutcome = error instanceof Stripe.errors.StripeConnectionError || error instanceof Stripe.errors.StripeAPIError;
+
+    if (error instanceof Stripe.errors.StripeError && !isUnknownOutcome) {
+      await prismadb.refund.update({
+        where: {
+          id: refund.id,
+        },
+        data: {
+          status: "FAILED",
+        },
+      });
+    }
+
+    throw error;
+  }
+
+  await applyRefund(refund.id, stripeRefund.id);
+};
+
+// Applies the admin's refunds among the given Stripe refunds; others are ignored.
+export const applyStripeRefunds = async (stripeRefunds: Stripe.Refund[]) => {
+  for (const stripeRefund of stripeRefunds) {
+    const refundId = stripeRefund.metadata?.refundId;
+
+    if (refundId && stripeRefund.status !== "failed" && stripeRefund.status !== "canceled") {
+      await applyRefund(refundId, stripeRefund.id);
+    }
+  }
+};
+
+// Settles refunds an earlier request left pending: those Stripe already made are applied,
+// the rest are submitted again under their idempotency key.
+const settlePendingRefunds = async (orderId: string) => {
+  const refunds = await prismadb.refund.findMany({
+    where: {
+      orderId,
+      status: "PENDING",
+    },
+    include: {
+      order: true,
+    },
+  });
+
+  if (refunds.length === 0) {
+    return;
+  }
+
+  const stripeRefunds = await stripe.refunds.list({
+    payment_intent: refunds[0].order.paymentIntentId!,
+    limit: 100,
+  });
+
+  await applyStripeRefunds(stripeRefunds.data);
+
+  for (const refund of refunds) {
+    if (!stripeRefunds.data.some((stripeRefund) => stripeRefund.metadata?.refundId === refund.id)) {
+      await submitRefund(refund);
+    }
+  }
+};
+
+// Refunds the given lines through Stripe. The refund is recorded as pending first and only
+// applied to the order and its stock once Stripe has accepted it; the Stripe call itself runs
+// outside any transaction so no row lock is held while waiting on it.
+export const refundOrder = async (args: {
+  orderId: string;
+  lines: RefundLine[];
+  reason?: string;
+  cancel?: boolean;
+  userId: string;
+}) => {
+  await settlePendingRefunds(args.orderId);
+
+  const refund = await createPendingRefund(args);
+
+  await submitRefund(refund);
+
+  return prismadb.order.findUniqueOrThrow({
+    where: {
+      id: args.orderId,
+    },
+  });
+};
+
+// Mirrors a refund made outside the admin (e.g. the Stripe dashboard) onto the order.
+// Stripe reports the cumulative refunded amount, so it replaces any smaller recorded total.
+export const syncStripeRefund = async ({
+  paymentIntentId,
+  amountRefunded,
+  fullyRefunded,
+}: {
+  paymentIntentId: string;
+  amountRefunded: number;
+  fullyRefunded: boolean;
+}) => {
+  return prismadb.$transaction(async (tx) => {
+    const current = await tx.order.findUnique({
+      where: {
+        paymentIntentId,
+      },
+    });
+
+    if (!current) {
+      return null;
+    }
+
+    const order = await tx.order.update({
+      where: {
+        id: current.id,
+      },
+      data: {
+        refundedAmount: Prisma.Decimal.max(current.refundedAmount, amountRefunded),
+      },
+      include: {
+        orderItems: true,
+      },
+    });
+
+    if (fullyRefunded) {
+      await restoreOrderItems(tx, order, getRefundableLines(order.orderItems), "REFUNDED", null);
+    }
+
+    return order;
+  });
+};
@@ -0,0 +1,217 @@
+import { OrderItem, Prisma, StockBatch } from "@prisma/client";
+
+// The dashboard warns about batches expiring within this many days.
+const DEFAULT_EXPIRY_WARNING_DAYS = 90;
+
+export const getExpiryWarningDays = () => {
+  return Number(process.env.EXPIRY_WARNING_DAYS) || DEFAULT_EXPIRY_WARNING_DAYS;
+};
+
+// Batches that can still be sold: units left and not yet expired.
+const getSellableBatchWhere = (now: Date): Prisma.StockBatchWhereInput => ({
+  quantity: {
+    gt: 0,
+  },
+  expiryDate: {
+    gt: now,
+  },
+});
+
+// Products without batches keep their manually counted stock; batched products are only
+// offered while an unexpired batch has units left.
+export const getSellableProductWhere = (now = new Date()): Prisma.ProductWhereInput => ({
+  OR: [
+    { batches: { none: {} } },
+    { batches: { some: getSellableBatchWhere(now) } },
+  ],
+});
+
+export const getSellableStock = (
+  product: { stock: number, batches: StockBatch[] },
+  now = new Date(),
+) => {
+  if (product.batches.length === 0) {
+    return product.stock;
+  }
+
+  return product.batches
+    .filter((batch) => batch.expiryDate > now)
+    .reduce((total, batch) => total + batch.quantity, 0);
+};
+
+// Rolls stock up from the most detailed level a product tracks: batches into their variant
+// (or into the product when it has no variants), then variants into the product. Expired
+// batches still count. A level without batches or variants keeps its manually counted stock.
+export const syncProductStock = async (tx: Prisma.TransactionClient, productId: string) => {
+  const variants = await tx.productVariant.findMany({
+    where: {
+      productId,
+    },
+  });
+
+  const batches = await tx.stockBatch.findMany({
+    where: {
+      productId,
+    },
+  });
+
+  const sumBatches = (list: StockBatch[]) => list.reduce((total, batch) => total + batch.quantity, 0);
+
+  if (variants.length === 0 && batches.length === 0) {
+    return;
+  }
+
+  let stock = sumBatches(batches);
+
+  if (variants.length > 0) {
+    stock = 0;
+
+    for (const variant of variants) {
+      const variantBatches = batches.filter((batch) => batch.variantId === variant.id);
+      const variantStock = variantBatches.length > 0 ? sumBatches(variantBatches) : variant.stock;
+
+      if (variantStock !== variant.stock) {
+        await tx.productVariant.update({
+          where: {
+            id: variant.id,
+          },
+          data: {
+            stock: variantStock,
+          },
+        });
+      }
+
+      stock += variantStock;
+    }
+  }
+
+  await tx.product.update({
+    where: {
+      id: productId,
+    },
+    data: {
+      stock,
+    },
+  });
+};
+
+// First expired, first out: each paid line takes units from the unexpired batches that
+// expire soonest. A shortfall (the last units sold by a concurrent order) stays unallocated.
+export const allocateOrderBatches = async (tx: Prisma.TransactionClient, orderItems: OrderItem[]) => {
+  const now = new Date();
+
+  for (const item of orderItems) {
+    const batches = await tx.stockBatch.findMany({
+      where: {
+        productId: item.productId,
+        variantId: item.variantId ?? undefined,
+        ...getSellableBatchWhere(now),
+      },
+      orderBy: [
+        { expiryDate: "asc" },
+        { id: "asc" },
+      ],
+    });
+
+    let remaining = item.quantity;
+
+    for (const batch of batches) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      const quantity = Math.min(remaining, batch.quantity);
+
+      // Guarded so a concurrent allocation cannot take the batch below zero.
+      const result = await tx.stockBatch.updateMany({
+        where: {
+          id: batch.id,
+          quantity: {
+            gte: quantity,
+          },
+        },
+        data: {
+          quantity: {
+            decrement: quantity,
+          },
+        },
+      });
+
+      if (result.count === 0) {
+        continue;
+      }
+
+      await tx.orderItemBatch.create({
+        data: {
+          orderItemId: item.id,
+          batchId: batch.id,
+          quantity,
+        },
+      });
+
+      remaining -= quantity;
+    }
+
+    await syncProductStock(tx, item.productId);
+  }
+};
+
+// Puts refunded units back into the batches they were sold from, latest-expiring first.
+export const returnOrderItemBatches = async (
+  tx: Prisma.TransactionClient,
+  item: OrderItem,
+  quantity: number,
+) => {
+  const allocations = await tx.orderItemBatch.findMany({
+    where: {
+      orderItemId: item.id,
+      quantity: {
+        gt: 0,
+      },
+    },
+    include: {
+      batch: true,
+    },
+  });
+
+  allocations.sort((a, b) => b.batch.expiryDate.getTime() - a.batch.expiryDate.getTime());
+
+  let remaining = quantity;
+
+  for (const allocation of allocations) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const returned = Math.min(remaining, allocation.quantity);
+
+    await tx.orderItemBatch.update({
+      where: {
+        id: allocation.id,
+      },
+      data: {
+        quantity: {
+          decrement: returned,
+        },
+      },
+    });
+
+    await tx.stockBatch.update({
+      where: {
+        id: allocation.batchId,
+      },
+      data: {
+        quantity: {
+          increment: returned,
+        },
+      },
+    });
+
+    remaining -= returned;
+  }
+
+  // Lines sold before the product had batches were only taken from its stock counts.
+  if (allocations.length > 0) {
+    await syncProductStock(tx, item.productId);
+  }
+};
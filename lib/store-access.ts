@@ -0,0 +1,86 @@
+import { currentUser } from "@clerk/nextjs";
+
+import prismadb from "@/lib/prismadb";
+import { StorePermission, roleHasPermission } from "@/lib/store-roles";
+
+// Archived stores have no members as far as the dashboard and admin API are concerned.
+export const getStoreMember = async (storeId: string, userId: string) => {
+  return prismadb.storeMember.findFirst({
+    where: {
+      storeId,
+      userId,
+      store: {
+        archivedAt: null,
+      },
+    },
+  });
+};
+
+// Shared check for every store-scoped mutation; the caller answers 403 when it fails.
+export const canAccessStore = async (
+  storeId: string,
+  userId: string,
+  permission?: StorePermission,
+) => {
+  const member = await getStoreMember(storeId, userId);
+
+  if (!member) {
+    return false;
+  }
+
+  return permission ? roleHasPermission(member.role, permission) : true;
+};
+
+// Links invitations sent to any of the signed-in user's verified email addresses to their
+// account. Unverified addresses are ignored: anyone can add one to their own account.
+export const acceptPendingInvitations = async (userId: string) => {
+  const user = await currentUser();
+
+  if (!user) {
+    return 0;
+  }
+
+  const emails = user.emailAddresses
+    .filter((item) => item.verification?.status === "verified")
+    .map((item) => item.emailAddress.toLowerCase());
+
+  const invitations = await prismadb.storeMember.findMany({
+    where: {
+      userId: null,
+      email: {
+        in: emails,
+      },
+    },
+  });
+
+  let accepted = 0;
+
+  for (const invitation of invitations) {
+    const existing = await prismadb.storeMember.findUnique({
+      where: {
+        storeId_userId: {
+          storeId: invitation.storeId,
+          userId,
+        },
+      },
+    });
+
+    if (existing) {
+      continue;
+    }
+
+    await prismadb.storeMember.update({
+      where: {
+        id: invitation.id,
+      },
+      data: {
+        userId,
+        acceptedAt: new Date(),
+      },
+    });
+
+    accepted++;
+  }
+
+  return accepted;
+};
@@ -0,0 +1,125 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { lockStore } from "@/lib/store-lock";
+
+// Orders that can still be paid; a store cannot be closed while one of these is open.
+const inFlightOrderStatuses: OrderStatus[] = ["PENDING", "FAILED"];
+
+export type StoreDeletionMode = "cascade" | "archive";
+
+export const isStoreDeletionMode = (value: unknown): value is StoreDeletionMode => {
+  return value === "cascade" || value === "archive";
+};
+
+export interface StoreDependencies {
+  billboards: number;
+  categories: number;
+  sizes: number;
+  colors: number;
+  products: number;
+  orders: number;
+  unpaidOrders: number;
+}
+
+// Trashed catalog rows are counted too, since a cascade removes them as well.
+export const getStoreDependencies = async (storeId: string): Promise<StoreDependencies> => {
+  const where = { storeId };
+
+  const [billboards, categories, sizes, colors, products, orders, unpaidOrders] = await Promise.all([
+    prismadb.billboard.count({ where }),
+    prismadb.category.count({ where }),
+    prismadb.size.count({ where }),
+    prismadb.color.count({ where }),
+    prismadb.product.count({ where }),
+    prismadb.order.count({ where }),
+    prismadb.order.count({
+      where: {
+        storeId,
+        status: {
+          in: inFlightOrderStatuses,
+        },
+      },
+    }),
+  ]);
+
+  return { billboards, categories, sizes, colors, products, orders, unpaidOrders };
+};
+
+// Thrown when unpaid orders are still open, so the route can answer 409 like its pre-check.
+export class UnpaidOrdersError extends Error {
+  constructor() {
+    super("Store has unpaid orders in flight");
+    this.name = "UnpaidOrdersError";
+  }
+}
+
+// Re-checked inside the transaction after taking the store lock. Checkout creates its order
+// under the same lock, so an order either exists by now or its checkout finds the store gone.
+const assertNoUnpaidOrders = async (tx: Prisma.TransactionClient, storeId: string) => {
+  const unpaidOrders = await tx.order.count({
+    where: {
+      storeId,
+      status: {
+        in: inFlightOrderStatuses,
+      },
+    },
+  });
+
+  if (unpaidOrders > 0) {
+    throw new UnpaidOrdersError();
+  }
+};
+
+// Removes the store and everything it owns. Members, audit logs, order history,
+// prescriptions and product images go with their parents through onDelete: Cascade.
+export const cascadeDeleteStore = async (storeId: string) => {
+  return prismadb.$transaction(async (tx) => {
+    await lockStore(tx, storeId);
+    await assertNoUnpaidOrders(tx, storeId);
+
+    await tx.orderItem.deleteMany({ where: { order: { storeId } } });
+    await tx.order.deleteMany({ where: { storeId } });
+    await tx.product.deleteMany({ where: { storeId } });
+    await tx.category.deleteMany({ where: { storeId } });
+    await tx.size.deleteMany({ where: { storeId } });
+    await tx.color.deleteMany({ where: { storeId } });
+    await tx.billboard.deleteMany({ where: { storeId } });
+    await tx.webhookEvent.deleteMany({ where: { storeId } });
+
+    return tx.store.delete({
+      where: {
+        id: storeId,
+      },
+    });
+  }, {
+    timeout: 15000,
+  });
+};
+
+// Takes the store offline but keeps its orders for accounting: every product is archived
+// and the store disappears from its members' dashboards.
+export const archiveStore = async (storeId: string) => {
+  return prismadb.$transaction(async (tx) => {
+    await lockStore(tx, storeId);
+    await assertNoUnpaidOrders(tx, storeId);
+
+    await tx.product.updateMany({
+      where: {
+        storeId,
+      },
+      data: {
+        isArchived: true,
+      },
+    });
+
+    return tx.store.update({
+      where: {
+        id: storeId,
+      },
+      data: {
+        archivedAt: new Date(),
+      },
+    });
+  });
+};
@@ -0,0 +1,7 @@
+import { Prisma } from "@prisma/client";
+
+// Holds the store row's lock until the transaction ends. Writes that must not interleave
+// within a store take it first: catalog code checks, and checkout against store deletion.
+export const lockStore = async (tx: Prisma.TransactionClient, storeId: string) => {
+  await tx.$queryRaw`SELECT id FROM "Store" WHERE id = ${storeId} FOR UPDATE`;
+};
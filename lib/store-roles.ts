@@ -0,0 +1,53 @@
+import { StoreRole } from "@prisma/client";
+
+export type StorePermission =
+  | "store:update"
+  | "store:delete"
+  | "members:manage"
+  | "catalog:write"
+  | "orders:write"
+  | "orders:refund"
+  | "prescriptions:review"
+  | "webhooks:replay";
+
+export const storeRoleLabels: Record<StoreRole, string> = {
+  OWNER: "Pemilik",
+  MANAGER: "Manajer",
+  PHARMACIST: "Apoteker",
+  VIEWER: "Pengamat",
+};
+
+// Every member can view the dashboard; these are the actions each role may perform on top.
+export const storeRolePermissions: Record<StoreRole, StorePermission[]> = {
+  OWNER: [
+    "store:update",
+    "store:delete",
+    "members:manage",
+    "catalog:write",
+    "orders:write",
+    "orders:refund",
+    "prescriptions:review",
+    "webhooks:replay",
+  ],
+  MANAGER: [
+    "store:update",
+    "catalog:write",
+    "orders:write",
+    "orders:refund",
+    "webhooks:replay",
+  ],
+  PHARMACIST: [
+    "catalog:write",
+    "orders:write",
+    "prescriptions:review",
+  ],
+  VIEWER: [],
+};
+
+export const isStoreRole = (value: unknown): value is StoreRole => {
+  return typeof value === "string" && value in storeRolePermissions;
+};
+
+export const roleHasPermission = (role: StoreRole, permission: StorePermission) => {
+  return storeRolePermissions[role].includes(permission);
+};
@@ -0,0 +1,218 @@
+import { AuditEntity, Prisma } from "@prisma/client";
+import { subDays } from "date-fns";
+
+import prismadb from "@/lib/prismadb";
+
+// Deleted catalog entries stay restorable for this many days before they are purged.
+const DEFAULT_RETENTION_DAYS = 30;
+
+export const trashEntities = ["products", "categories", "sizes", "colors", "billboards"] as const;
+
+export type TrashEntity = typeof trashEntities[number];
+
+export const trashEntityLabels: Record<TrashEntity, string> = {
+  products: "Produk",
+  categories: "Kategori",
+  sizes: "Bentuk Obat",
+  colors: "Tipe Obat",
+  billboards: "Papan Iklan",
+};
+
+export const trashAuditEntities: Record<TrashEntity, AuditEntity> = {
+  products: "PRODUCT",
+  categories: "CATEGORY",
+  sizes: "SIZE",
+  colors: "COLOR",
+  billboards: "BILLBOARD",
+};
+
+export const isTrashEntity = (value: unknown): value is TrashEntity => {
+  return trashEntities.includes(value as TrashEntity);
+};
+
+export const getTrashRetentionDays = () => {
+  return Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+};
+
+export interface TrashedItem {
+  id: string;
+  name: string;
+  deletedAt: Date;
+}
+
+export const getTrashedItems = async (storeId: string, entity: TrashEntity): Promise<TrashedItem[]> => {
+  const where = { storeId, deletedAt: { not: null } };
+  const orderBy = { deletedAt: "desc" as const };
+
+  const rows = await (async () => {
+    switch (entity) {
+      case "products":
+        return prismadb.product.findMany({ where, orderBy });
+      case "categories":
+        return prismadb.category.findMany({ where, orderBy });
+      case "sizes":
+        return prismadb.size.findMany({ where, orderBy });
+      case "colors":
+        return prismadb.color.findMany({ where, orderBy });
+      case "billboards":
+        return (await prismadb.billboard.findMany({ where, orderBy }))
+          .map((billboard) => ({ ...billboard, name: billboard.label }));
+    }
+  })();
+
+  return rows.map((row) => ({ id: row.id, name: row.name, deletedAt: row.deletedAt! }));
+};
+
+export const findTrashedItem = async (storeId: string, entity: TrashEntity, id: string) => {
+  const where = { id, storeId, deletedAt: { not: null } };
+
+  switch (entity) {
+    case "products":
+      return prismadb.product.findFirst({ where });
+    case "categories":
+      return prismadb.category.findFirst({ where });
+    case "sizes":
+      return prismadb.size.findFirst({ where });
+    case "colors":
+      return prismadb.color.findFirst({ where });
+    case "billboards":
+      return prismadb.billboard.findFirst({ where });
+  }
+};
+
+// Rows that still point at the entry. Trashed dependents only count when `includeTrashed`
+// is set, since they block a purge (foreign keys) but not a soft delete. Orders never
+// block moving a product to the trash, only purging it.
+export const countDependents = async (
+  entity: TrashEntity,
+  id: string,
+  includeTrashed = false,
+  db: Prisma.TransactionClient = prismadb,
+) => {
+  const deletedAt = includeTrashed ? undefined : null;
+
+  switch (entity) {
+    case "products":
+      return includeTrashed ? db.orderItem.count({ where: { productId: id } }) : 0;
+    case "categories":
+      return db.product.count({ where: { categoryId: id, deletedAt } });
+    case "sizes":
+      return db.product.count({
+        where: { OR: [{ sizeId: id }, { variants: { some: { sizeId: id } } }], deletedAt },
+      });
+    case "colors":
+      return db.product.count({
+        where: { OR: [{ colorId: id }, { variants: { some: { colorId: id } } }], deletedAt },
+      });
+    case "billboards":
+      return db.category.count({ where: { billboardId: id, deletedAt } });
+  }
+};
+
+// A product or category cannot come back while something it references is still trashed.
+export const hasTrashedParent = async (entity: TrashEntity, id: string) => {
+  switch (entity) {
+    case "products": {
+      const product = await prismadb.product.findUnique({
+        where: { id },
+        include: {
+          category: true,
+          size: true,
+          color: true,
+          variants: { include: { size: true, color: true } },
+        },
+      });
+
+      return !!product && [
+        product.category,
+        product.size,
+        product.color,
+        ...product.variants.flatMap((variant) => [variant.size, variant.color]),
+      ].some((parent) => parent.deletedAt);
+    }
+    case "categories": {
+      const category = await prismadb.category.findUnique({
+        where: { id },
+        include: { billboard: true },
+      });
+
+      return !!category && !!category.billboard.deletedAt;
+    }
+    default:
+      return false;
+  }
+};
+
+export const restoreTrashedItem = async (entity: TrashEntity, id: string) => {
+  const where = { id };
+  const data = { deletedAt: null };
+
+  switch (entity) {
+    case "products":
+      return prismadb.product.update({ where, data });
+    case "categories":
+      return prismadb.category.update({ where, data });
+    case "sizes":
+      return prismadb.size.update({ where, data });
+    case "colors":
+      return prismadb.color.update({ where, data });
+    case "billboards":
+      return prismadb.billboard.update({ where, data });
+  }
+};
+
+export const purgeTrashedItem = async (entity: TrashEntity, id: string) => {
+  const where = { id };
+
+  switch (entity) {
+    case "products":
+      return prismadb.product.delete({ where });
+    case "categories":
+      return prismadb.category.delete({ where });
+    case "sizes":
+      return prismadb.size.delete({ where });
+    case "colors":
+      return prismadb.color.delete({ where });
+    case "billboards":
+      return prismadb.billboard.delete({ where });
+  }
+};
+
+// Purges entries trashed before the retention window, products first so the categories,
+// sizes, colors and billboards they referenced can follow. Entries that are still
+// referenced (e.g. products with orders) are left in the trash.
+export const purgeExpiredTrash = async () => {
+  const cutoff = subDays(new Date(), getTrashRetentionDays());
+  let purged = 0;
+
+  for (const entity of trashEntities) {
+    const where = { deletedAt: { lt: cutoff } };
+    const select = { id: true };
+
+    const rows = await (async () => {
+      switch (entity) {
+        case "products":
+          return prismadb.product.findMany({ where, select });
+        case "categories":
+          return prismadb.category.findMany({ where, select });
+        case "sizes":
+          return prismadb.size.findMany({ where, select });
+        case "colors":
+          return prismadb.color.findMany({ where, select });
+        case "billboards":
+          return prismadb.billboard.findMany({ where, select });
+      }
+    })();
+
+    for (const row of rows) {
+      if (await countDependents(entity, row.id, true) > 0) {
+        continue;
+      }
+
+      await purgeTrashedItem(entity, row.id);
+      purged += 1;
+    }
+  }
+
+  return purged;
+};
@@ -0,0 +1,81 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { stripe } from "@/lib/stripe";
+import { orderStatusTransitions } from "@/lib/order-status";
+
+// Closes an order's checkout session so its link can no longer be paid. Sessions that are
+// already complete or expired are left alone; a payment that still slips through is handled
+// by the webhook, which never reopens a closed order.
+export const expireCheckoutSession = async (sessionId: string) => {
+  try {
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+    if (session.status === "open") {
+      await stripe.checkout.sessions.expire(sessionId);
+    }
+  } catch (error) {
+    console.log("[CHECKOUT_SESSION_EXPIRE]", sessionId, error);
+  }
+};
+
+// Stock is only taken when an order is paid, so closing an unpaid order has nothing to give back.
+// The closed orders' checkout sessions are expired once the change is committed.
+export const closeUnpaidOrders = async (
+  where: Prisma.OrderWhereInput,
+  status: Extract<OrderStatus, "FAILED" | "EXPIRED">,
+) => {
+  const fromStatuses = (Object.keys(orderStatusTransitions) as OrderStatus[])
+    .filter((fromStatus) => orderStatusTransitions[fromStatus].includes(status));
+
+  const orders = await prismadb.$transaction(async (tx) => {
+    const orders = await tx.order.findMany({
+      where: {
+        ...where,
+        isPaid: false,
+        status: {
+          in: fromStatuses,
+        },
+      },
+      select: {
+        id: true,
+        status: true,
+        stripeSessionId: true,
+      },
+    });
+
+    if (orders.length === 0) {
+      return orders;
+    }
+
+    await tx.order.updateMany({
+      where: {
+        id: {
+          in: orders.map((order) => order.id),
+        },
+        isPaid: false,
+      },
+      data: {
+        status,
+      },
+    });
+
+    await tx.orderStatusHistory.createMany({
+      data: orders.map((order) => ({
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: status,
+      })),
+    });
+
+    return orders;
+  });
+
+  for (const order of orders) {
+    if (order.stripeSessionId) {
+      await expireCheckoutSession(order.stripeSessionId);
+    }
+  }
+
+  return orders;
+};
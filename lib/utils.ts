@@ -5,7 +5,10 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export const formatter = new Intl.NumberFormat("id-ID", {
-  style: 'currency',
-  currency: 'IDR'
-});
+export function isHttpUrl(value: string) {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol)
+  } catch (error) {
+    return false
+  }
+}
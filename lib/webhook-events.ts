@@ -0,0 +1,198 @@
+import Stripe from "stripe";
+import { Prisma } from "@prisma/client";
+
+import prismadb from "@/lib/prismadb";
+import { fromMinorUnits } from "@/lib/currency";
+import { stripe } from "@/lib/stripe";
+import { applyStripeRefunds, syncStripeRefund } from "@/lib/refunds";
+import { closeUnpaidOrders } from "@/lib/unpaid-orders";
+import { recordCheckoutPayment } from "@/lib/paid-orders";
+
+const getPaymentIntentId = (paymentIntent: string | Stripe.PaymentIntent | null) => {
+    return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id;
+};
+
+// Applies a verified Stripe event to the store's orders and stock.
+const handleStripeEvent = async (event: Stripe.Event) => {
+    const session = event.data.object as Stripe.Checkout.Session;
+    const address = session?.customer_details?.address;
+
+    const addressComponents = [
+        address?.line1,
+        address?.line2,
+        address?.city,
+        address?.state,
+        address?.postal_code,
+        address?.country,
+    ];
+
+    const addressString = addressComponents.filter((c) => c !== null).join(', ');
+
+    if (event.type === "checkout.session.completed" && session?.metadata?.orderId) {
+        await recordCheckoutPayment(session.metadata.orderId, {
+            address: addressString,
+            addressLine1: address?.line1 || '',
+            addressLine2: address?.line2 || '',
+            city: address?.city || '',
+            state: address?.state || '',
+            postalCode: address?.postal_code || '',
+            country: address?.country || '',
+            phone: session?.customer_details?.phone || '',
+            paymentIntentId: getPaymentIntentId(session.payment_intent)
+        });
+    }
+
+    if (event.type === "checkout.session.expired" && session?.metadata?.orderId) {
+        await closeUnpaidOrders({ id: session.metadata.orderId }, "EXPIRED");
+    }
+
+    if (event.type === "payment_intent.payment_failed") {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+        if (paymentIntent.metadata?.orderId) {
+            await closeUnpaidOrders({ id: paymentIntent.metadata.orderId }, "FAILED");
+        }
+    }
+
+    if (event.type === "charge.refunded") {
+        const charge = event.data.object as Stripe.Charge;
+        const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+
+        if (paymentIntentId) {
+            // Refunds started from the admin are applied line by line first; the sync below
+            // then only covers refunds made elsewhere.
+            const stripeRefunds = await stripe.refunds.list({
+                charge: charge.id,
+                limit: 100,
+            });
+
+            await applyStripeRefunds(stripeRefunds.data);
+
+            await syncStripeRefund({
+                paymentIntentId,
+                amountRefunded: fromMinorUnits(charge.amount_refunded, charge.currency),
+                fullyRefunded: charge.refunded,
+            });
+        }
+    }
+};
+
+// Finds the store an event belongs to through the order it references, if any.
+const getEventStoreId = async (event: Stripe.Event) => {
+    const object = event.data.object as { metadata?: Stripe.Metadata | null };
+    const orderId = object.metadata?.orderId;
+
+    if (orderId) {
+        const order = await prismadb.order.findUnique({
+            where: {
+                id: orderId
+            }
+        });
+
+        return order?.storeId ?? null;
+    }
+
+    if (event.type === "charge.refunded") {
+        const paymentIntentId = getPaymentIntentId(event.data.object.payment_intent);
+
+        if (paymentIntentId) {
+            const order = await prismadb.order.findUnique({
+                where: {
+                    paymentIntentId
+                }
+            });
+
+            return order?.storeId ?? null;
+        }
+    }
+
+    return null;
+};
+
+// An attempt still PROCESSING after this long died without recording its outcome (e.g. the
+// function timed out), so the event may be claimed again.
+const STALE_PROCESSING_MINUTES = 5;
+
+const getStaleBefore = () => new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000);
+
+export const isReplayableWebhookEvent = (webhookEvent: { status: string, claimedAt: Date }) => {
+    return webhookEvent.status === "FAILED" ||
+        (webhookEvent.status === "PROCESSING" && webhookEvent.claimedAt < getStaleBefore());
+};
+
+// Records the event and runs it at most once. Stripe retries and admin replays of a failed
+// or abandoned event claim the stored row again. Succeeded events are skipped; an event
+// another attempt is still working on reports IN_PROGRESS so Stripe retries it later.
+export const processStripeEvent = async (event: Stripe.Event) => {
+    try {
+        await prismadb.webhookEvent.create({
+            data: {
+                id: event.id,
+                type: event.type,
+                payload: event as unknown as Prisma.InputJsonValue,
+                storeId: await getEventStoreId(event),
+            }
+        });
+    } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== "P2002") {
+            throw error;
+        }
+
+        const claimed = await prismadb.webhookEvent.updateMany({
+            where: {
+                id: event.id,
+                OR: [
+                    { status: "FAILED" },
+                    { status: "PROCESSING", claimedAt: { lt: getStaleBefore() } },
+                ],
+            },
+            data: {
+                status: "PROCESSING",
+                claimedAt: new Date(),
+                attempts: {
+                    increment: 1
+                },
+            }
+        });
+
+        if (claimed.count === 0) {
+            const existing = await prismadb.webhookEvent.findUnique({
+                where: {
+                    id: event.id
+                }
+            });
+
+            return existing?.status === "PROCESSING" ? "IN_PROGRESS" : "SKIPPED";
+        }
+    }
+
+    try {
+        await handleStripeEvent(event);
+    } catch (error: any) {
+        await prismadb.webhookEvent.update({
+            where: {
+                id: event.id
+            },
+            data: {
+                status: "FAILED",
+                error: error?.message || String(error),
+                processedAt: new Date(),
+            }
+        });
+
+        throw error;
+    }
+
+    await prismadb.webhookEvent.update({
+        where: {
+            id: event.id
+        },
+        data: {
+            status: "SUCCEEDED",
+            error: null,
+            processedAt: new Date(),
+        }
+    });
+
+    return "SUCCEEDED";
+};
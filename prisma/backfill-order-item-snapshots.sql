@@ -0,0 +1,8 @@
+-- Copies the current product name and price onto order items created before
+-- OrderItem stored its own snapshot. Safe to run more than once.
+UPDATE "OrderItem" AS oi
+SET "name" = p."name",
+    "price" = p."price"
+FROM "Product" AS p
+WHERE oi."productId" = p."id"
+  AND oi."name" = '';
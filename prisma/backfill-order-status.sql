@@ -0,0 +1,5 @@
+-- Marks orders paid before Order.status existed as PAID. Safe to run more than once.
+UPDATE "Order"
+SET "status" = 'PAID'
+WHERE "isPaid" = true
+  AND "status" = 'PENDING';
@@ -0,0 +1,9 @@
+-- Gives every store created before StoreMember existed an owner membership for its creator.
+-- Safe to run more than once.
+INSERT INTO "StoreMember" ("id", "storeId", "userId", "email", "role", "acceptedAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid(), s."id", s."userId", '', 'OWNER', NOW(), NOW(), NOW()
+FROM "Store" AS s
+WHERE NOT EXISTS (
+  SELECT 1 FROM "StoreMember" AS m
+  WHERE m."storeId" = s."id" AND m."userId" = s."userId"
+);